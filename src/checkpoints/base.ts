@@ -0,0 +1,126 @@
+import {
+  catchError,
+  concatMap,
+  EMPTY,
+  Observable,
+  retry,
+  Subject,
+  Subscription,
+} from 'rxjs';
+import { Logger } from '../util';
+
+/** Last processed position per shard, keyed by shard id */
+export type Checkpoints = Record<string, string>;
+
+/**
+ * Durable storage for stream positions.
+ *
+ * Positions are grouped by a consumer key (e.g. `cloudrx-events/worker`) and
+ * recorded per shard, so a restarted consumer can resume each shard right
+ * after the last record it processed.
+ */
+export interface CheckpointStore {
+  /** Read the recorded position of every shard for a consumer key */
+  get(key: string): Observable<Checkpoints>;
+  /** Record the last processed position of a shard for a consumer key */
+  set(key: string, shard: string, position: string): Observable<void>;
+}
+
+type Position = { shard: string; position: string };
+
+type Batch = { positions: Position[]; delivered: boolean };
+
+/**
+ * A consumer's view of a {@link CheckpointStore}.
+ *
+ * Commits are written sequentially in the order they were made, so a slow
+ * write can never overwrite a newer position with an older one. A failed
+ * write is retried, then skipped, so later commits are still written.
+ *
+ * A stream stages the positions a batch reaches with {@link stage}, and
+ * they are committed once the batch has been delivered (see
+ * {@link batch}).
+ */
+export class Checkpoint {
+  // Retries of a failed write, before it is skipped
+  public static RETRY = { count: 3, delay: 500 };
+
+  private commits = new Subject<Position>();
+  private subscription: Subscription;
+  private staged: Position[] = [];
+  private batches: Batch[] = [];
+
+  constructor(
+    private readonly store: CheckpointStore,
+    public readonly key: string,
+    private readonly logger?: Logger
+  ) {
+    this.subscription = this.commits
+      .pipe(
+        concatMap(({ shard, position }) =>
+          this.store.set(this.key, shard, position).pipe(
+            retry(Checkpoint.RETRY),
+            catchError((err) => {
+              this.logger?.warn?.(
+                `[${this.key}] Failed to write checkpoint:`,
+                err
+              );
+              return EMPTY;
+            })
+          )
+        )
+      )
+      .subscribe();
+  }
+
+  positions(): Observable<Checkpoints> {
+    return this.store.get(this.key);
+  }
+
+  commit(shard: string, position: string): void {
+    this.commits.next({ shard, position });
+  }
+
+  /**
+   * Record a position reached by the batch about to be emitted, to be
+   * committed once that batch has been delivered.
+   */
+  stage(shard: string, position: string): void {
+    this.staged.push({ shard, position });
+  }
+
+  /**
+   * Take the positions staged for the batch being delivered. Calling the
+   * returned function marks the batch as delivered: its positions are
+   * committed once every batch taken before it has been delivered too.
+   */
+  batch(): () => void {
+    const batch: Batch = { positions: this.staged, delivered: false };
+    this.staged = [];
+    this.batches.push(batch);
+
+    return () => {
+      batch.delivered = true;
+      while (this.batches[0]?.delivered) {
+        this.batches.shift()?.positions.forEach(({ shard, position }) => {
+          this.commit(shard, position);
+        });
+      }
+    };
+  }
+
+  /**
+   * Stop accepting commits. Commits already made are still written.
+   */
+  close(): void {
+    this.commits.complete();
+  }
+
+  /**
+   * Stop accepting commits and abandon any that are still pending.
+   */
+  dispose(): void {
+    this.commits.complete();
+    this.subscription.unsubscribe();
+  }
+}
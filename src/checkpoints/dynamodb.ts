@@ -0,0 +1,136 @@
+import {
+  CreateTableCommand,
+  DescribeTableCommand,
+  DynamoDBClient,
+} from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocument } from '@aws-sdk/lib-dynamodb';
+import {
+  catchError,
+  defer,
+  map,
+  Observable,
+  of,
+  retry,
+  shareReplay,
+  switchMap,
+  throwError,
+  timer,
+} from 'rxjs';
+import { Checkpoints, CheckpointStore } from './base';
+
+export type DynamoDBCheckpointStoreOptions = {
+  client?: DynamoDBClient;
+  tableName?: string;
+};
+
+/**
+ * Checkpoint store backed by a DynamoDB table.
+ *
+ * The table is keyed by consumer key (hash) and shard id (range) and is
+ * created on first use if it does not exist.
+ */
+export class DynamoDBCheckpointStore implements CheckpointStore {
+  private static DEFAULT_CLIENT = new DynamoDBClient({});
+
+  public readonly tableName: string;
+  private _client: DynamoDBClient;
+  private _ready?: Observable<DynamoDBDocument>;
+
+  constructor(opts?: DynamoDBCheckpointStoreOptions) {
+    this._client = opts?.client || DynamoDBCheckpointStore.DEFAULT_CLIENT;
+    this.tableName = opts?.tableName || 'cloudrx-checkpoints';
+  }
+
+  get client(): DynamoDBDocument {
+    return DynamoDBDocument.from(this._client);
+  }
+
+  get(key: string): Observable<Checkpoints> {
+    return this.ready().pipe(
+      switchMap((client) =>
+        client.query({
+          TableName: this.tableName,
+          KeyConditionExpression: '#key = :key',
+          ExpressionAttributeNames: { '#key': 'key' },
+          ExpressionAttributeValues: { ':key': key },
+          ConsistentRead: true,
+        })
+      ),
+      map(({ Items = [] }) =>
+        Items.reduce((acc, item) => {
+          acc[`${item.shard}`] = `${item.position}`;
+          return acc;
+        }, {} as Checkpoints)
+      )
+    );
+  }
+
+  set(key: string, shard: string, position: string): Observable<void> {
+    return this.ready().pipe(
+      switchMap((client) =>
+        client.put({
+          TableName: this.tableName,
+          Item: { key, shard, position, updated: Date.now() },
+        })
+      ),
+      map(() => undefined)
+    );
+  }
+
+  private ready(): Observable<DynamoDBDocument> {
+    if (this._ready) {
+      return this._ready;
+    }
+
+    const describe$ = defer(() =>
+      this.client.send(new DescribeTableCommand({ TableName: this.tableName }))
+    ).pipe(map(({ Table }) => Table?.TableStatus));
+
+    const create$ = defer(() =>
+      this.client.send(
+        new CreateTableCommand({
+          TableName: this.tableName,
+          KeySchema: [
+            { AttributeName: 'key', KeyType: 'HASH' },
+            { AttributeName: 'shard', KeyType: 'RANGE' },
+          ],
+          AttributeDefinitions: [
+            { AttributeName: 'key', AttributeType: 'S' },
+            { AttributeName: 'shard', AttributeType: 'S' },
+          ],
+          BillingMode: 'PAY_PER_REQUEST',
+        })
+      )
+    ).pipe(
+      map(({ TableDescription }) => TableDescription?.TableStatus),
+      catchError((error: Error) =>
+        // Another consumer created the table first
+        error.name === 'ResourceInUseException'
+          ? of(undefined)
+          : throwError(() => error)
+      )
+    );
+
+    this._ready = describe$.pipe(
+      catchError((error: Error) =>
+        error.name === 'ResourceNotFoundException'
+          ? create$
+          : throwError(() => error)
+      ),
+      switchMap((status) =>
+        status === 'ACTIVE'
+          ? of(this.client)
+          : throwError(() => new Error('Checkpoint table is not yet active'))
+      ),
+      retry({ count: 30, delay: () => timer(1000) }),
+      catchError((error) => {
+        // Allow a later call to try again from scratch
+        delete this._ready;
+        return throwError(() => error);
+      }),
+      shareReplay(1)
+    );
+
+    return this._ready;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import { defer, Observable, of } from 'rxjs';
+import { Checkpoints, CheckpointStore } from './base';
+
+/**
+ * Checkpoint store backed by a JSON file on the local filesystem.
+ *
+ * Writes replace the file atomically (write to a temporary file, then
+ * rename), so a crash mid-write never leaves a truncated checkpoint file.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(public readonly path: string) {}
+
+  get(key: string): Observable<Checkpoints> {
+    return defer(() => of({ ...this.read()[key] }));
+  }
+
+  set(key: string, shard: string, position: string): Observable<void> {
+    return defer(() => {
+      const all = this.read();
+      all[key] = { ...all[key], [shard]: position };
+      this.write(all);
+      return of(undefined);
+    });
+  }
+
+  private read(): Record<string, Checkpoints> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+    const content = readFileSync(this.path, 'utf8');
+    return content.trim()
+      ? (JSON.parse(content) as Record<string, Checkpoints>)
+      : {};
+  }
+
+  private write(all: Record<string, Checkpoints>): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(all, null, 2));
+    renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,161 @@
+/* global describe, it, beforeEach, afterEach, expect */
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  concat,
+  defer,
+  firstValueFrom,
+  lastValueFrom,
+  throwError,
+  timer,
+} from 'rxjs';
+import { Checkpoint, CheckpointStore } from './base';
+import { FileCheckpointStore } from './file';
+import { MemoryCheckpointStore } from './memory';
+
+const behaves = (name: string, create: () => CheckpointStore): void => {
+  describe(name, () => {
+    let store: CheckpointStore;
+
+    beforeEach(() => {
+      store = create();
+    });
+
+    it('returns no positions for an unknown key', async () => {
+      expect(await firstValueFrom(store.get('unknown'))).toEqual({});
+    });
+
+    it('records positions per shard', async () => {
+      await lastValueFrom(
+        concat(
+          store.set('consumer', 'shard-1', '100'),
+          store.set('consumer', 'shard-2', '200'),
+          store.set('consumer', 'shard-1', '101')
+        ),
+        { defaultValue: undefined }
+      );
+
+      expect(await firstValueFrom(store.get('consumer'))).toEqual({
+        'shard-1': '101',
+        'shard-2': '200',
+      });
+    });
+
+    it('keeps consumers separate', async () => {
+      await lastValueFrom(
+        concat(store.set('a', 'shard', '1'), store.set('b', 'shard', '2')),
+        { defaultValue: undefined }
+      );
+
+      expect(await firstValueFrom(store.get('a'))).toEqual({ shard: '1' });
+      expect(await firstValueFrom(store.get('b'))).toEqual({ shard: '2' });
+    });
+
+    it('writes commits in order', async () => {
+      const checkpoint = new Checkpoint(store, 'ordered');
+      checkpoint.commit('shard', '1');
+      checkpoint.commit('shard', '2');
+      checkpoint.commit('shard', '3');
+      checkpoint.close();
+
+      await firstValueFrom(timer(10));
+      expect(await firstValueFrom(checkpoint.positions())).toEqual({
+        shard: '3',
+      });
+    });
+
+    it('commits staged positions once their batches are delivered', async () => {
+      const checkpoint = new Checkpoint(store, 'staged');
+      checkpoint.stage('shard', '1');
+      const first = checkpoint.batch();
+      checkpoint.stage('shard', '2');
+      const second = checkpoint.batch();
+
+      // A batch waits for the batches before it
+      second();
+      await firstValueFrom(timer(10));
+      expect(await firstValueFrom(checkpoint.positions())).toEqual({});
+
+      first();
+      await firstValueFrom(timer(10));
+      expect(await firstValueFrom(checkpoint.positions())).toEqual({
+        shard: '2',
+      });
+      checkpoint.close();
+    });
+  });
+};
+
+describe('checkpoints', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cloudrx-checkpoints-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  behaves('memory', () => new MemoryCheckpointStore());
+  behaves('file', () => new FileCheckpointStore(join(dir, 'checkpoints.json')));
+
+  describe('file persistence', () => {
+    it('survives a new store instance', async () => {
+      const path = join(dir, 'nested', 'checkpoints.json');
+      await lastValueFrom(
+        new FileCheckpointStore(path).set('consumer', 'shard', '42'),
+        { defaultValue: undefined }
+      );
+
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({
+        consumer: { shard: '42' },
+      });
+      expect(
+        await firstValueFrom(new FileCheckpointStore(path).get('consumer'))
+      ).toEqual({ shard: '42' });
+    });
+  });
+
+  describe('failed writes', () => {
+    const retry = Checkpoint.RETRY;
+
+    beforeEach(() => {
+      Checkpoint.RETRY = { count: 1, delay: 10 };
+    });
+
+    afterEach(() => {
+      Checkpoint.RETRY = retry;
+    });
+
+    it('retries a write, and keeps writing after one fails', async () => {
+      const memory = new MemoryCheckpointStore();
+      const attempts: string[] = [];
+      let failures = 3;
+      const store: CheckpointStore = {
+        get: (key) => memory.get(key),
+        set: (key, shard, position) =>
+          defer(() => {
+            attempts.push(position);
+            return failures-- > 0
+              ? throwError(() => new Error('Throttled'))
+              : memory.set(key, shard, position);
+          }),
+      };
+
+      const checkpoint = new Checkpoint(store, 'failing');
+      checkpoint.commit('shard', '1');
+      checkpoint.commit('shard', '2');
+      checkpoint.commit('shard', '3');
+      checkpoint.close();
+
+      await firstValueFrom(timer(200));
+      // '1' fails twice and is skipped, '2' is written on its retry
+      expect(attempts).toEqual(['1', '1', '2', '2', '3']);
+      expect(await firstValueFrom(checkpoint.positions())).toEqual({
+        shard: '3',
+      });
+    });
+  });
+});
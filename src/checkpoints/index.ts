@@ -0,0 +1,7 @@
+export * from './base';
+export { MemoryCheckpointStore } from './memory';
+export { FileCheckpointStore } from './file';
+export {
+  DynamoDBCheckpointStore,
+  DynamoDBCheckpointStoreOptions,
+} from './dynamodb';
@@ -0,0 +1,24 @@
+import { defer, Observable, of } from 'rxjs';
+import { Checkpoints, CheckpointStore } from './base';
+
+/**
+ * In-process checkpoint store. Positions survive re-subscription but not a
+ * process restart.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, Checkpoints>();
+
+  get(key: string): Observable<Checkpoints> {
+    return defer(() => of({ ...this.checkpoints.get(key) }));
+  }
+
+  set(key: string, shard: string, position: string): Observable<void> {
+    return defer(() => {
+      this.checkpoints.set(key, {
+        ...this.checkpoints.get(key),
+        [shard]: position,
+      });
+      return of(undefined);
+    });
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Converts values to and from the plain JSON (objects, arrays, strings,
+ * numbers, booleans and null) that providers persist.
+ *
+ * Providers encode each item before storing it and decode it when it is
+ * streamed or read back in a snapshot, so a value round-trips with its
+ * types intact as far as the codec supports them. Top-level fields must
+ * stay fields of an object, since providers read `__expires` and `__emits`
+ * from the encoded item.
+ *
+ * Providers also pass the key of the record a value is stored under, so
+ * that a codec can bind the value to it.
+ */
+export interface Codec {
+  /** Convert a value to plain JSON */
+  encode(value: unknown, key?: string): unknown;
+  /** Restore a value from its plain JSON */
+  decode(value: unknown, key?: string): unknown;
+}
@@ -0,0 +1,58 @@
+/* global describe, it, expect */
+import { JsonCodec } from './json';
+import { RichJsonCodec } from './rich';
+
+describe('JsonCodec', () => {
+  const codec = new JsonCodec();
+
+  it('encodes with JSON semantics', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z');
+    expect(
+      codec.encode({ date, missing: undefined, tags: new Set(['a']) })
+    ).toEqual({ date: '2024-01-01T00:00:00.000Z', tags: {} });
+  });
+
+  it('decodes values as they are', () => {
+    expect(codec.decode({ count: 1 })).toEqual({ count: 1 });
+  });
+});
+
+describe('RichJsonCodec', () => {
+  const codec = new RichJsonCodec();
+  const roundTrip = (value: unknown): unknown =>
+    codec.decode(JSON.parse(JSON.stringify(codec.encode(value))));
+
+  it('round-trips rich values', () => {
+    const value = {
+      date: new Date('2024-01-01T00:00:00.000Z'),
+      big: BigInt('9007199254740993'),
+      buffer: Buffer.from('hello'),
+      map: new Map<string, unknown>([['when', new Date(0)]]),
+      set: new Set([1, 2]),
+      nested: { list: [new Date(1000), 'text', null] },
+    };
+
+    const decoded = roundTrip(value) as typeof value;
+    expect(decoded).toEqual(value);
+    expect(decoded.date).toBeInstanceOf(Date);
+    expect(decoded.buffer).toBeInstanceOf(Buffer);
+    expect(decoded.map.get('when')).toBeInstanceOf(Date);
+  });
+
+  it('keeps top-level fields readable', () => {
+    expect(codec.encode({ message: 'hi', __expires: 10 })).toEqual({
+      message: 'hi',
+      __expires: 10,
+    });
+  });
+
+  it('tags objects that look like encoded values', () => {
+    const value = { __type: 'Date', value: 'not a date' };
+    expect(codec.encode(value)).toEqual({ __type: 'Object', value });
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('drops undefined fields', () => {
+    expect(roundTrip({ kept: 1, dropped: undefined })).toEqual({ kept: 1 });
+  });
+});
@@ -0,0 +1,3 @@
+export * from './base';
+export { JsonCodec } from './json';
+export { RichJsonCodec } from './rich';
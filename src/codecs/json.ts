@@ -0,0 +1,16 @@
+import { Codec } from './base';
+
+/**
+ * Plain `JSON.stringify` semantics: a `Date` becomes its ISO string, `Map`
+ * and `Set` become `{}`, and `undefined` fields are dropped. A `BigInt`
+ * can't be encoded.
+ */
+export class JsonCodec implements Codec {
+  encode(value: unknown): unknown {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  decode(value: unknown): unknown {
+    return value;
+  }
+}
@@ -1,11 +1,14 @@
 /* global describe, it, beforeEach, afterEach, expect, jest */
-import { Subscription, firstValueFrom } from 'rxjs';
+import { Subscription, firstValueFrom, toArray } from 'rxjs';
 import { TableDescription } from '@aws-sdk/client-dynamodb';
 import { _Record } from '@aws-sdk/client-dynamodb-streams';
 import { fromEvent } from '../../observables/fromEvent';
 import { Abortable } from '../../util/abortable';
-import { Controller } from '..';
+import { MemoryCheckpointStore } from '../../checkpoints';
+import { Controller, ControllerError, ControllerErrorEvent } from '..';
+import { marshall } from '@aws-sdk/util-dynamodb';
 import {
+  ConcurrencyConflictError,
   DynamoDBController,
   DynamoDBEvent,
   DynamoDBControllerOptions,
@@ -14,13 +17,20 @@ import {
 // Mock AWS SDK constructors so the controller uses our mockSend
 const mockSend = jest.fn();
 const mockDestroy = jest.fn();
-const mockClient = { send: mockSend, destroy: mockDestroy };
+// Hoisted, and deferring to the mocks, for clients constructed at import
+// (e.g. DynamoDBCheckpointStore's default client)
+function mockClient(): { send: jest.Mock; destroy: jest.Mock } {
+  return {
+    send: jest.fn((...args: unknown[]) => mockSend(...args)),
+    destroy: jest.fn(() => mockDestroy()),
+  };
+}
 
 jest.mock('@aws-sdk/client-dynamodb', () => {
   const actual = jest.requireActual('@aws-sdk/client-dynamodb');
   return {
     ...actual,
-    DynamoDBClient: jest.fn().mockImplementation(() => mockClient),
+    DynamoDBClient: jest.fn().mockImplementation(mockClient),
   };
 });
 
@@ -30,7 +40,7 @@ jest.mock('@aws-sdk/lib-dynamodb', () => {
     ...actual,
     DynamoDBDocumentClient: {
       ...actual.DynamoDBDocumentClient,
-      from: jest.fn().mockImplementation(() => mockClient),
+      from: jest.fn().mockImplementation(mockClient),
     },
   };
 });
@@ -39,7 +49,7 @@ jest.mock('@aws-sdk/client-dynamodb-streams', () => {
   const actual = jest.requireActual('@aws-sdk/client-dynamodb-streams');
   return {
     ...actual,
-    DynamoDBStreamsClient: jest.fn().mockImplementation(() => mockClient),
+    DynamoDBStreamsClient: jest.fn().mockImplementation(mockClient),
   };
 });
 
@@ -96,7 +106,7 @@ function clearInstanceCache(): void {
 function createMockController<T = unknown>(
   tableArn = 'arn:aws:dynamodb:us-east-1:123456789:table/test-table',
   options: Partial<DynamoDBControllerOptions> = {}
-): Controller<DynamoDBEvent<T>> {
+): DynamoDBController<T> {
   // Mock DescribeStreamCommand response
   mockSend.mockImplementation((command: unknown) => {
     const commandName = (command as { constructor: { name: string } })
@@ -172,7 +182,7 @@ describe('DynamoDBController', () => {
   });
 
   describe('event classification', () => {
-    it('classifies INSERT as modified', async () => {
+    it('classifies INSERT as inserted', async () => {
       controller = createMockController();
       const record = createMockRecord('INSERT', {
         newImage: { id: { S: 'test' }, data: { S: 'value' } },
@@ -186,8 +196,9 @@ describe('DynamoDBController', () => {
       ).classifyRecord.bind(controller);
 
       const event = classifyRecord(record);
-      expect(event?.type).toBe('modified');
+      expect(event?.type).toBe('inserted');
       expect(event?.eventName).toBe('INSERT');
+      expect(event).not.toHaveProperty('oldValue');
     });
 
     it('classifies MODIFY as modified', async () => {
@@ -206,6 +217,56 @@ describe('DynamoDBController', () => {
       const event = classifyRecord(record);
       expect(event?.type).toBe('modified');
       expect(event?.eventName).toBe('MODIFY');
+      expect(event?.oldValue).toEqual({ id: 'test', data: 'old' });
+    });
+
+    it('diffs a modification against the old image', async () => {
+      controller = createMockController();
+      const record = createMockRecord('MODIFY', {
+        oldImage: marshall({
+          id: 'test',
+          name: 'Alice',
+          profile: { city: 'Paris', zip: '75001' },
+          tags: ['a'],
+        }),
+        newImage: marshall({
+          id: 'test',
+          name: 'Alice',
+          profile: { city: 'Lyon', country: 'FR' },
+          tags: ['a', 'b'],
+          age: 30,
+        }),
+      });
+
+      const classifyRecord = (
+        controller as unknown as {
+          classifyRecord: (r: _Record) => DynamoDBEvent<unknown> | null;
+        }
+      ).classifyRecord.bind(controller);
+
+      expect(classifyRecord(record)?.diff).toEqual({
+        changed: ['profile.city', 'tags'],
+        added: ['profile.country', 'age'],
+        removed: ['profile.zip'],
+      });
+    });
+
+    it('has no diff without an old image', async () => {
+      controller = createMockController();
+      const record = createMockRecord('MODIFY', {
+        newImage: { id: { S: 'test' }, data: { S: 'new' } },
+      });
+
+      const classifyRecord = (
+        controller as unknown as {
+          classifyRecord: (r: _Record) => DynamoDBEvent<unknown> | null;
+        }
+      ).classifyRecord.bind(controller);
+
+      const event = classifyRecord(record);
+      expect(event?.type).toBe('modified');
+      expect(event).not.toHaveProperty('oldValue');
+      expect(event).not.toHaveProperty('diff');
     });
 
     it('classifies REMOVE without TTL as removed', async () => {
@@ -592,7 +653,7 @@ describe('DynamoDBController', () => {
         pollInterval: 50,
       });
 
-      const sub = fromEvent(controller, 'modified').subscribe((e) =>
+      const sub = fromEvent(controller, 'inserted').subscribe((e) =>
         events.push(e)
       );
       subscriptions.push(sub);
@@ -605,7 +666,7 @@ describe('DynamoDBController', () => {
 
       // Verify exact event content matches what was inserted
       const event = events[0]!;
-      expect(event.type).toBe('modified');
+      expect(event.type).toBe('inserted');
       expect(event.eventName).toBe('INSERT');
       expect(event.sequenceNumber).toBe('100');
       expect(event.value).toEqual({ id: 'test-1', data: 'hello' });
@@ -662,7 +723,7 @@ describe('DynamoDBController', () => {
       });
 
       const events: DynamoDBEvent<unknown>[] = [];
-      const sub = fromEvent(controller, 'modified').subscribe((e) =>
+      const sub = fromEvent(controller, 'inserted').subscribe((e) =>
         events.push(e)
       );
       subscriptions.push(sub);
@@ -677,7 +738,7 @@ describe('DynamoDBController', () => {
 
       // Verify exact event content
       const event = events[0]!;
-      expect(event.type).toBe('modified');
+      expect(event.type).toBe('inserted');
       expect(event.eventName).toBe('INSERT');
       expect(event.sequenceNumber).toBe('200');
       expect(event.value).toEqual({ id: 'final' });
@@ -734,7 +795,7 @@ describe('DynamoDBController', () => {
         pollInterval: 50,
       });
 
-      const sub = fromEvent(controller, 'modified').subscribe((e) =>
+      const sub = fromEvent(controller, 'inserted').subscribe((e) =>
         events.push(e)
       );
       subscriptions.push(sub);
@@ -755,7 +816,7 @@ describe('DynamoDBController', () => {
 
       // Verify shard-001 events have correct structure
       const shard1Event = shard1Events[0]!;
-      expect(shard1Event.type).toBe('modified');
+      expect(shard1Event.type).toBe('inserted');
       expect(shard1Event.eventName).toBe('INSERT');
       expect((shard1Event.value as { id: string }).id).toBe('shard-001');
       expect((shard1Event.value as { source: string }).source).toBe(
@@ -764,7 +825,7 @@ describe('DynamoDBController', () => {
 
       // Verify shard-002 events have correct structure
       const shard2Event = shard2Events[0]!;
-      expect(shard2Event.type).toBe('modified');
+      expect(shard2Event.type).toBe('inserted');
       expect(shard2Event.eventName).toBe('INSERT');
       expect((shard2Event.value as { id: string }).id).toBe('shard-002');
       expect((shard2Event.value as { source: string }).source).toBe(
@@ -848,7 +909,7 @@ describe('DynamoDBController', () => {
         pollInterval: 50,
       });
 
-      const sub = fromEvent(controller, 'modified').subscribe((e) =>
+      const sub = fromEvent(controller, 'inserted').subscribe((e) =>
         events.push(e)
       );
       subscriptions.push(sub);
@@ -870,19 +931,403 @@ describe('DynamoDBController', () => {
 
       // Verify shard-001 event content
       const shard1Event = shard1Events[0]!;
-      expect(shard1Event.type).toBe('modified');
+      expect(shard1Event.type).toBe('inserted');
       expect(shard1Event.eventName).toBe('INSERT');
       expect(shard1Event.sequenceNumber).toBe('seq-001-1');
       expect((shard1Event.value as { id: string }).id).toBe('from-shard-001');
 
       // Verify shard-002 event content
       const shard2Event = shard2Events[0]!;
-      expect(shard2Event.type).toBe('modified');
+      expect(shard2Event.type).toBe('inserted');
       expect(shard2Event.eventName).toBe('INSERT');
       expect((shard2Event.value as { id: string }).id).toBe('from-shard-002');
     });
   });
 
+  describe('shard lineage', () => {
+    it('starts a child shard once its parent is drained', async () => {
+      const iteratorInputs: Record<string, unknown>[] = [];
+      let parentReads = 0;
+
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor, input } = command as {
+          constructor: { name: string };
+          input: Record<string, unknown>;
+        };
+
+        if (constructor.name === 'DescribeStreamCommand') {
+          return Promise.resolve({
+            StreamDescription: {
+              Shards: [
+                { ShardId: 'shard-child', ParentShardId: 'shard-parent' },
+                { ShardId: 'shard-parent' },
+              ],
+            },
+          });
+        }
+        if (constructor.name === 'GetShardIteratorCommand') {
+          iteratorInputs.push(input);
+          return Promise.resolve({ ShardIterator: `${input.ShardId}` });
+        }
+        if (constructor.name === 'GetRecordsCommand') {
+          if (input.ShardIterator === 'shard-child') {
+            return Promise.resolve({
+              Records: [
+                createMockRecord('MODIFY', {
+                  sequenceNumber: '300',
+                  newImage: { id: { S: 'same-key' } },
+                }),
+              ],
+              NextShardIterator: null,
+            });
+          }
+          // The parent is drained over two reads
+          parentReads++;
+          return Promise.resolve({
+            Records: [
+              createMockRecord(parentReads === 1 ? 'INSERT' : 'MODIFY', {
+                sequenceNumber: `${parentReads}00`,
+                newImage: { id: { S: 'same-key' } },
+              }),
+            ],
+            NextShardIterator: parentReads === 1 ? 'shard-parent' : null,
+          });
+        }
+        return Promise.resolve({});
+      });
+
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 50,
+      });
+      const events: DynamoDBEvent<unknown>[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'inserted').subscribe((e) => events.push(e)),
+        fromEvent(controller, 'modified').subscribe((e) => events.push(e))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(events.map((e) => e.sequenceNumber)).toEqual([
+        '100',
+        '200',
+        '300',
+      ]);
+      expect(iteratorInputs.map(({ ShardId }) => ShardId)).toEqual([
+        'shard-parent',
+        'shard-child',
+      ]);
+      expect(iteratorInputs[1]?.ShardIteratorType).toBe('TRIM_HORIZON');
+    });
+
+    it('starts a child at LATEST when its parent was already closed', async () => {
+      const iteratorInputs: Record<string, unknown>[] = [];
+
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor, input } = command as {
+          constructor: { name: string };
+          input: Record<string, unknown>;
+        };
+
+        if (constructor.name === 'DescribeStreamCommand') {
+          return Promise.resolve({
+            StreamDescription: {
+              Shards: [
+                { ShardId: 'shard-parent' },
+                { ShardId: 'shard-child', ParentShardId: 'shard-parent' },
+              ],
+            },
+          });
+        }
+        if (constructor.name === 'GetShardIteratorCommand') {
+          iteratorInputs.push(input);
+          return Promise.resolve({
+            ShardIterator: `${input.ShardId}/${input.ShardIteratorType}`,
+          });
+        }
+        if (constructor.name === 'GetRecordsCommand') {
+          // A closed shard has nothing at LATEST
+          if (input.ShardIterator === 'shard-parent/LATEST') {
+            return Promise.resolve({ Records: [], NextShardIterator: null });
+          }
+          // The child's history, which must not be replayed
+          if (input.ShardIterator === 'shard-child/TRIM_HORIZON') {
+            return Promise.resolve({
+              Records: [
+                createMockRecord('INSERT', {
+                  sequenceNumber: '100',
+                  newImage: { id: { S: 'old' } },
+                }),
+              ],
+              NextShardIterator: 'shard-child/next',
+            });
+          }
+          return Promise.resolve({ Records: [], NextShardIterator: 'next' });
+        }
+        return Promise.resolve({});
+      });
+
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 50,
+      });
+      const events: DynamoDBEvent<unknown>[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'inserted').subscribe((e) => events.push(e))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(
+        iteratorInputs.map(({ ShardId, ShardIteratorType }) => [
+          ShardId,
+          ShardIteratorType,
+        ])
+      ).toEqual([
+        ['shard-parent', 'LATEST'],
+        ['shard-child', 'LATEST'],
+      ]);
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('stream errors', () => {
+    it('emits an error and restarts a failed shard poller', async () => {
+      let shardIterators = 0;
+      let reads = 0;
+
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor } = command as { constructor: { name: string } };
+
+        if (constructor.name === 'DescribeStreamCommand') {
+          return Promise.resolve({
+            StreamDescription: { Shards: [{ ShardId: 'shard-001' }] },
+          });
+        }
+        if (constructor.name === 'GetShardIteratorCommand') {
+          shardIterators++;
+          return Promise.resolve({ ShardIterator: 'iterator-001' });
+        }
+        if (constructor.name === 'GetRecordsCommand') {
+          reads++;
+          if (reads === 1) {
+            return Promise.reject(new Error('Throttled'));
+          }
+          return Promise.resolve({
+            Records: [
+              createMockRecord('INSERT', {
+                sequenceNumber: '100',
+                newImage: { id: { S: 'test-id' } },
+              }),
+            ],
+            NextShardIterator: null,
+          });
+        }
+        return Promise.resolve({});
+      });
+
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 50,
+        retry: { count: 0, delay: 10, maxDelay: 10 },
+      });
+      const errors: ControllerErrorEvent[] = [];
+      const events: DynamoDBEvent<unknown>[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'error').subscribe((e) => errors.push(e)),
+        fromEvent(controller, 'inserted').subscribe((e) => events.push(e))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]!.error).toBeInstanceOf(ControllerError);
+      expect(errors[0]!.error).toMatchObject({
+        operation: 'GetRecords',
+        shardId: 'shard-001',
+        message: 'GetRecords failed on shard shard-001: Throttled',
+      });
+      expect(shardIterators).toBe(2);
+      expect(events.map((e) => e.sequenceNumber)).toEqual(['100']);
+    });
+
+    it('retries transient failures separated by successful reads', async () => {
+      let shardIterators = 0;
+      let reads = 0;
+
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor } = command as { constructor: { name: string } };
+
+        if (constructor.name === 'DescribeStreamCommand') {
+          return Promise.resolve({
+            StreamDescription: { Shards: [{ ShardId: 'shard-001' }] },
+          });
+        }
+        if (constructor.name === 'GetShardIteratorCommand') {
+          shardIterators++;
+          return Promise.resolve({ ShardIterator: 'iterator-001' });
+        }
+        if (constructor.name === 'GetRecordsCommand') {
+          reads++;
+          // Every other read is throttled
+          if (reads % 2 === 0) {
+            return Promise.reject(new Error('Throttled'));
+          }
+          return Promise.resolve({
+            Records: [
+              createMockRecord('INSERT', {
+                sequenceNumber: `${reads}`,
+                newImage: { id: { S: 'test-id' } },
+              }),
+            ],
+            NextShardIterator: reads < 5 ? `iterator-${reads}` : null,
+          });
+        }
+        return Promise.resolve({});
+      });
+
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 20,
+        retry: { count: 1, delay: 10, maxDelay: 10 },
+      });
+      const errors: ControllerErrorEvent[] = [];
+      const events: DynamoDBEvent<unknown>[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'error').subscribe((e) => errors.push(e)),
+        fromEvent(controller, 'inserted').subscribe((e) => events.push(e))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      // Each retry resumes from a new iterator
+      expect(errors).toHaveLength(0);
+      expect(shardIterators).toBe(3);
+      expect(events.map((e) => e.sequenceNumber)).toEqual(['1', '3', '5']);
+    });
+
+    it('emits an error and keeps discovering shards', async () => {
+      let describes = 0;
+
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor } = command as { constructor: { name: string } };
+
+        if (constructor.name === 'DescribeStreamCommand') {
+          describes++;
+          return describes === 1
+            ? Promise.reject(new Error('Unavailable'))
+            : Promise.resolve({ StreamDescription: { Shards: [] } });
+        }
+        return Promise.resolve({});
+      });
+
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 50,
+      });
+      const errors: ControllerErrorEvent[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'error').subscribe((e) => errors.push(e)),
+        fromEvent(controller, 'modified').subscribe()
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(errors.map((e) => e.error.operation)).toEqual(['DescribeStream']);
+      expect(describes).toBeGreaterThan(1);
+    });
+  });
+
+  describe('start positions', () => {
+    // One shard holding an old and a new record, closed after one read
+    const mockShard = (): Record<string, unknown>[] => {
+      const iteratorInputs: Record<string, unknown>[] = [];
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor, input } = command as {
+          constructor: { name: string };
+          input: Record<string, unknown>;
+        };
+
+        if (constructor.name === 'DescribeStreamCommand') {
+          return Promise.resolve({
+            StreamDescription: { Shards: [{ ShardId: 'shard-001' }] },
+          });
+        }
+        if (constructor.name === 'GetShardIteratorCommand') {
+          iteratorInputs.push(input);
+          return Promise.resolve({ ShardIterator: 'iterator-001' });
+        }
+        if (constructor.name === 'GetRecordsCommand') {
+          return Promise.resolve({
+            Records: [
+              createMockRecord('INSERT', {
+                sequenceNumber: '100',
+                newImage: { id: { S: 'old' } },
+                timestamp: new Date('2024-01-01T00:00:00Z'),
+              }),
+              createMockRecord('INSERT', {
+                sequenceNumber: '200',
+                newImage: { id: { S: 'new' } },
+                timestamp: new Date('2024-01-02T00:00:00Z'),
+              }),
+            ],
+            NextShardIterator: null,
+          });
+        }
+        return Promise.resolve({});
+      });
+      return iteratorInputs;
+    };
+
+    const listen = async (
+      options: DynamoDBControllerOptions
+    ): Promise<DynamoDBEvent<unknown>[]> => {
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 50,
+        ...options,
+      });
+      const events: DynamoDBEvent<unknown>[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'inserted').subscribe((e) => events.push(e))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      return events;
+    };
+
+    it('starts from LATEST by default', async () => {
+      const iteratorInputs = mockShard();
+
+      await listen({});
+
+      expect(iteratorInputs).toEqual([
+        {
+          StreamArn: expect.any(String),
+          ShardId: 'shard-001',
+          ShardIteratorType: 'LATEST',
+        },
+      ]);
+    });
+
+    it('skips records before a start timestamp', async () => {
+      const iteratorInputs = mockShard();
+
+      // Within the second of the new record, whose creation time is rounded
+      const events = await listen({
+        startPosition: { timestamp: new Date('2024-01-02T00:00:00.400Z') },
+      });
+
+      expect(iteratorInputs[0]?.ShardIteratorType).toBe('TRIM_HORIZON');
+      expect(events.map((e) => e.sequenceNumber)).toEqual(['200']);
+    });
+
+    it('resumes after a checkpoint and records progress', async () => {
+      const iteratorInputs = mockShard();
+      const checkpoints = new MemoryCheckpointStore();
+      const key = `${createMockTableDescription().TableArn}/worker`;
+      await firstValueFrom(checkpoints.set(key, 'shard-001', '50'));
+
+      await listen({ startPosition: { checkpoint: 'worker' }, checkpoints });
+
+      expect(iteratorInputs[0]).toMatchObject({
+        ShardIteratorType: 'AFTER_SEQUENCE_NUMBER',
+        SequenceNumber: '50',
+      });
+      expect(await firstValueFrom(checkpoints.get(key))).toEqual({
+        'shard-001': '200',
+      });
+    });
+  });
+
   describe('put()', () => {
     it('sends a PutCommand with the value as Item', async () => {
       controller = createMockController();
@@ -928,6 +1373,360 @@ describe('DynamoDBController', () => {
     });
   });
 
+  describe('versioned put()', () => {
+    const putInputs = (): Record<string, unknown>[] =>
+      mockSend.mock.calls
+        .filter(
+          ([cmd]: [{ constructor: { name: string } }]) =>
+            cmd.constructor.name === 'PutCommand'
+        )
+        .map(([cmd]: [{ input: Record<string, unknown> }]) => cmd.input);
+
+    it('creates the first version when the item has none', async () => {
+      controller = createMockController(undefined, {
+        versionAttribute: 'version',
+      });
+
+      await firstValueFrom(controller.put({ id: 'v-test', data: 'hello' }));
+
+      expect(putInputs()[0]).toEqual({
+        TableName: 'test-table',
+        Item: { id: 'v-test', data: 'hello', version: 1 },
+        ConditionExpression: 'attribute_not_exists(#version)',
+        ExpressionAttributeNames: { '#version': 'version' },
+        ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+      });
+    });
+
+    it('writes over the given version and increments it', async () => {
+      controller = createMockController(undefined, {
+        versionAttribute: 'version',
+      });
+
+      await firstValueFrom(
+        controller.put({ id: 'v-test', data: 'hello', version: 2 })
+      );
+
+      expect(putInputs()[0]).toMatchObject({
+        Item: { id: 'v-test', data: 'hello', version: 3 },
+        ConditionExpression: '#version = :version',
+        ExpressionAttributeValues: { ':version': 2 },
+      });
+    });
+
+    it('fails with the current item on a conflict', async () => {
+      const versioned = createMockController<Record<string, unknown>>(
+        undefined,
+        { versionAttribute: 'version' }
+      );
+      controller = versioned;
+      mockSend.mockImplementation(() =>
+        Promise.reject(
+          Object.assign(new Error('The conditional request failed'), {
+            name: 'ConditionalCheckFailedException',
+            Item: marshall({ id: 'v-test', data: 'theirs', version: 4 }),
+          })
+        )
+      );
+
+      const error = await firstValueFrom(
+        versioned.put({ id: 'v-test', data: 'mine', version: 3 })
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ConcurrencyConflictError);
+      expect((error as ConcurrencyConflictError).current).toEqual({
+        id: 'v-test',
+        data: 'theirs',
+        version: 4,
+      });
+    });
+  });
+
+  describe('update()', () => {
+    it('sends an UpdateCommand built from the changes', async () => {
+      const versioned = createMockController<Record<string, unknown>>(
+        undefined,
+        { versionAttribute: 'version' }
+      );
+      controller = versioned;
+      mockSend.mockImplementation(() =>
+        Promise.resolve({ Attributes: { id: 'u-test', count: 2 } })
+      );
+
+      const updated = await firstValueFrom(
+        versioned.update(
+          { id: 'u-test' },
+          {
+            set: { data: 'hello' },
+            remove: ['stale'],
+            add: { count: 1 },
+            append: { tags: ['new'] },
+          }
+        )
+      );
+
+      expect(updated).toEqual({ id: 'u-test', count: 2 });
+      const updateCall = mockSend.mock.calls.find(
+        ([cmd]: [{ constructor: { name: string } }]) =>
+          cmd.constructor.name === 'UpdateCommand'
+      );
+      expect(updateCall![0].input).toEqual({
+        TableName: 'test-table',
+        Key: { id: 'u-test' },
+        UpdateExpression:
+          'SET #u0 = :u0, #u1 = list_append(if_not_exists(#u1, :u1), :u2) REMOVE #u2 ADD #u3 :u3, #u4 :u4',
+        ExpressionAttributeNames: {
+          '#u0': 'data',
+          '#u1': 'tags',
+          '#u2': 'stale',
+          '#u3': 'count',
+          '#u4': 'version',
+        },
+        ExpressionAttributeValues: {
+          ':u0': 'hello',
+          ':u1': [],
+          ':u2': ['new'],
+          ':u3': 1,
+          ':u4': 1,
+        },
+        ReturnValues: 'ALL_NEW',
+      });
+    });
+
+    it('requires at least one change', async () => {
+      const unversioned = createMockController<Record<string, unknown>>();
+      controller = unversioned;
+
+      await expect(
+        firstValueFrom(unversioned.update({ id: 'x' }, {}))
+      ).rejects.toThrow('update() requires at least one change');
+    });
+
+    it('retries the read-modify-write after a conflict', async () => {
+      const versioned = createMockController<Record<string, unknown>>(
+        undefined,
+        { versionAttribute: 'version' }
+      );
+      controller = versioned;
+
+      let version = 1;
+      let puts = 0;
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor, input } = command as {
+          constructor: { name: string };
+          input: { Item?: { version: number } };
+        };
+        if (constructor.name === 'GetCommand') {
+          return Promise.resolve({
+            Item: { id: 'counter', count: version * 10, version },
+          });
+        }
+        if (constructor.name === 'PutCommand' && ++puts === 1) {
+          // Another writer got there first
+          version = 2;
+          return Promise.reject(
+            Object.assign(new Error('The conditional request failed'), {
+              name: 'ConditionalCheckFailedException',
+            })
+          );
+        }
+        return Promise.resolve({ Attributes: input.Item });
+      });
+
+      const fn = jest.fn((current?: Record<string, unknown>) => ({
+        id: 'counter',
+        count: ((current?.count as number) ?? 0) + 1,
+      }));
+      const written = await firstValueFrom(
+        versioned.update({ id: 'counter' }, fn)
+      );
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(written).toEqual({ id: 'counter', count: 21, version: 3 });
+    });
+
+    it('requires a versionAttribute', async () => {
+      const unversioned = createMockController<Record<string, unknown>>();
+      controller = unversioned;
+
+      await expect(
+        firstValueFrom(unversioned.update({ id: 'x' }, () => ({})))
+      ).rejects.toThrow('update() requires a versionAttribute');
+    });
+  });
+
+  describe('query() and scan()', () => {
+    type Item = { id: string; sort: number; data: string };
+    let reader: DynamoDBController<Item>;
+
+    const inputs = (name: string): Record<string, unknown>[] =>
+      mockSend.mock.calls
+        .filter(
+          ([cmd]: [{ constructor: { name: string } }]) =>
+            cmd.constructor.name === name
+        )
+        .map(([cmd]: [{ input: Record<string, unknown> }]) => cmd.input);
+
+    // Two pages of items, continuing after the first
+    const paged =
+      (name: string) =>
+      (command: unknown): Promise<unknown> => {
+        const { constructor, input } = command as {
+          constructor: { name: string };
+          input: { ExclusiveStartKey?: unknown };
+        };
+        if (constructor.name !== name) {
+          return Promise.resolve({});
+        }
+        return Promise.resolve(
+          input.ExclusiveStartKey
+            ? { Items: [{ id: 'a', sort: 3, data: 'third' }] }
+            : {
+                Items: [
+                  { id: 'a', sort: 1, data: 'first' },
+                  { id: 'a', sort: 2, data: 'second' },
+                ],
+                LastEvaluatedKey: { id: 'a', sort: 2 },
+              }
+        );
+      };
+
+    afterEach(() => {
+      reader?.dispose();
+    });
+
+    it('queries through every page', async () => {
+      reader = createMockController<Item>();
+      mockSend.mockImplementation(paged('QueryCommand'));
+
+      const items = await firstValueFrom(
+        reader
+          .query({
+            keyCondition: { id: 'a', sort: { $gt: 0 } },
+            filter: { data: { $ne: 'none' } },
+            index: 'by-sort',
+          })
+          .pipe(toArray())
+      );
+
+      expect(items.map(({ sort }) => sort)).toEqual([1, 2, 3]);
+      const [first, second] = inputs('QueryCommand');
+      expect(first).toEqual({
+        TableName: 'test-table',
+        IndexName: 'by-sort',
+        KeyConditionExpression: '#k0 = :k0 AND #k1 > :k1',
+        FilterExpression: '(attribute_not_exists(#f0) OR #f0 <> :f0)',
+        ExpressionAttributeNames: { '#k0': 'id', '#k1': 'sort', '#f0': 'data' },
+        ExpressionAttributeValues: { ':k0': 'a', ':k1': 0, ':f0': 'none' },
+        Limit: undefined,
+        ExclusiveStartKey: undefined,
+      });
+      expect(second?.ExclusiveStartKey).toEqual({ id: 'a', sort: 2 });
+    });
+
+    it('stops reading pages at the limit', async () => {
+      reader = createMockController<Item>();
+      mockSend.mockImplementation(paged('QueryCommand'));
+
+      const items = await firstValueFrom(
+        reader.query({ keyCondition: { id: 'a' }, limit: 2 }).pipe(toArray())
+      );
+
+      expect(items).toHaveLength(2);
+      expect(inputs('QueryCommand')).toHaveLength(1);
+    });
+
+    it('requires a keyCondition', async () => {
+      reader = createMockController<Item>();
+
+      await expect(
+        firstValueFrom(reader.query({ keyCondition: {} }))
+      ).rejects.toThrow('query() requires a keyCondition');
+    });
+
+    it('scans segments in parallel', async () => {
+      reader = createMockController<Item>();
+      mockSend.mockImplementation(paged('ScanCommand'));
+
+      const items = await firstValueFrom(
+        reader.scan({ segments: 2 }).pipe(toArray())
+      );
+
+      expect(items).toHaveLength(6);
+      expect(
+        inputs('ScanCommand').map(({ Segment, TotalSegments }) => [
+          Segment,
+          TotalSegments,
+        ])
+      ).toEqual(
+        expect.arrayContaining([
+          [0, 2],
+          [1, 2],
+        ])
+      );
+    });
+  });
+
+  describe('watch()', () => {
+    it('watches one composite key from the stream', async () => {
+      let reads = 0;
+      mockSend.mockImplementation((command: unknown) => {
+        const { constructor } = command as { constructor: { name: string } };
+
+        if (constructor.name === 'GetCommand') {
+          return Promise.resolve({ Item: { pk: 'a', sk: 1, name: 'first' } });
+        }
+        if (constructor.name === 'DescribeStreamCommand') {
+          return Promise.resolve({
+            StreamDescription: { Shards: [{ ShardId: 'shard-001' }] },
+          });
+        }
+        if (constructor.name === 'GetShardIteratorCommand') {
+          return Promise.resolve({ ShardIterator: 'iterator-001' });
+        }
+        if (constructor.name === 'GetRecordsCommand' && ++reads === 1) {
+          const keys = (pk: string): Record<string, unknown> =>
+            marshall({ sk: 1, pk });
+          return Promise.resolve({
+            Records: [
+              createMockRecord('MODIFY', {
+                sequenceNumber: '100',
+                keys: keys('b'),
+                newImage: marshall({ pk: 'b', sk: 1, name: 'other' }),
+              }),
+              createMockRecord('MODIFY', {
+                sequenceNumber: '200',
+                keys: keys('a'),
+                newImage: marshall({ pk: 'a', sk: 1, name: 'second' }),
+              }),
+              createMockRecord('REMOVE', {
+                sequenceNumber: '300',
+                keys: keys('a'),
+                oldImage: marshall({ pk: 'a', sk: 1, name: 'second' }),
+              }),
+            ],
+            NextShardIterator: null,
+          });
+        }
+        return Promise.resolve({});
+      });
+
+      controller = DynamoDBController.from(createMockTableDescription(), {
+        pollInterval: 50,
+      });
+      const values = await firstValueFrom(
+        controller
+          .watch({ pk: 'a', sk: 1 }, { untilRemoved: true })
+          .pipe(toArray())
+      );
+
+      expect(values).toEqual([
+        { pk: 'a', sk: 1, name: 'first' },
+        { pk: 'a', sk: 1, name: 'second' },
+      ]);
+    });
+  });
+
   describe('remove()', () => {
     it('sends a DeleteCommand with key', async () => {
       controller = createMockController();
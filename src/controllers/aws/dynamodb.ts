@@ -1,4 +1,15 @@
-import { Observable, Subscription, defer, timer, of, EMPTY } from 'rxjs';
+import {
+  Observable,
+  Subscription,
+  defer,
+  timer,
+  of,
+  EMPTY,
+  merge,
+  throwError,
+  asapScheduler,
+  MonoTypeOperatorFunction,
+} from 'rxjs';
 import {
   takeUntil,
   switchMap,
@@ -7,8 +18,12 @@ import {
   catchError,
   expand,
   retry,
+  concatMap,
+  subscribeOn,
+  take,
 } from 'rxjs/operators';
 import {
+  AttributeValue,
   DynamoDBClient,
   DynamoDBClientConfig,
   TableDescription,
@@ -16,6 +31,11 @@ import {
 import {
   DynamoDBDocumentClient,
   PutCommand,
+  PutCommandInput,
+  QueryCommand,
+  QueryCommandOutput,
+  ScanCommand,
+  UpdateCommand,
   DeleteCommand,
   GetCommand,
 } from '@aws-sdk/lib-dynamodb';
@@ -23,13 +43,30 @@ import {
   DynamoDBStreamsClient,
   DescribeStreamCommand,
   GetShardIteratorCommand,
+  GetShardIteratorCommandOutput,
   GetRecordsCommand,
   GetRecordsCommandOutput,
   _Record,
   Shard,
 } from '@aws-sdk/client-dynamodb-streams';
 import { unmarshall } from '@aws-sdk/util-dynamodb';
-import { Controller, ControllerEvent, ControllerOptions, EventType } from '..';
+import { Filter } from '../../providers/base';
+import {
+  Checkpoint,
+  Checkpoints,
+  CheckpointStore,
+  MemoryCheckpointStore,
+} from '../../checkpoints';
+import { compile, FilterExpression } from '../../providers/aws/filter';
+import { diff } from '../diff';
+import {
+  Controller,
+  ControllerError,
+  ControllerEvent,
+  ControllerOptions,
+  EventType,
+  UpdateChanges,
+} from '..';
 
 /**
  * Configuration options for DynamoDBController
@@ -41,6 +78,102 @@ export interface DynamoDBControllerOptions extends ControllerOptions {
   pollInterval?: number;
   /** TTL attribute name (default: 'expires'), null to disable TTL detection */
   ttlAttribute?: string | null;
+  /**
+   * Version attribute name for optimistic concurrency (default: none, last
+   * writer wins). When set, `put` writes only over the version it was given
+   * and increments it.
+   */
+  versionAttribute?: string;
+  /** Where to start reading each shard (default: 'LATEST') */
+  startPosition?: DynamoDBStartPosition;
+  /** Where `{ checkpoint }` start positions are recorded (default: in memory) */
+  checkpoints?: CheckpointStore;
+  /** How failed stream reads are retried before an 'error' event */
+  retry?: DynamoDBRetryOptions;
+}
+
+/**
+ * Retry policy for stream reads. Failed reads are retried `count` times,
+ * waiting `delay` ms and doubling up to `maxDelay` ms. Then an 'error'
+ * event is emitted, and the shard poller restarts after `maxDelay` ms.
+ */
+export interface DynamoDBRetryOptions {
+  /** Retries before an 'error' event (default: 3) */
+  count?: number;
+  /** Wait before the first retry in ms (default: 1000) */
+  delay?: number;
+  /** Longest wait between retries, and before a restart, in ms (default: 10000) */
+  maxDelay?: number;
+}
+
+/**
+ * Where {@link DynamoDBController} starts reading each shard:
+ * - `'LATEST'`: records written after the shard is first read
+ * - `'TRIM_HORIZON'`: the oldest record in the stream (up to 24 hours old)
+ * - `{ timestamp }`: records created at or after a time, to the second
+ *   (DynamoDB rounds creation times down to the second). DynamoDB Streams
+ *   has no `AT_TIMESTAMP` iterator, so shards are read from the trim
+ *   horizon and earlier records skipped.
+ * - `{ checkpoint }`: right after the last record processed by the named
+ *   consumer, as recorded in the controller's `checkpoints`. Shards the
+ *   consumer has no position for start at `initial` (default:
+ *   'TRIM_HORIZON', so that nothing written while it was down is missed).
+ */
+export type DynamoDBStartPosition =
+  | 'LATEST'
+  | 'TRIM_HORIZON'
+  | { timestamp: Date }
+  | { checkpoint: string; initial?: 'LATEST' | 'TRIM_HORIZON' };
+
+/**
+ * Options for {@link DynamoDBController.query}. Conditions use the same
+ * filter syntax as provider snapshots, over the item's attributes.
+ */
+export interface DynamoDBQueryOptions<T> {
+  /** Condition on the partition key (equality) and sort key */
+  keyCondition: Filter<T>;
+  /** Condition on other attributes, applied to the items read */
+  filter?: Filter<T>;
+  /** Secondary index to query instead of the table */
+  index?: string;
+  /** Most items to emit (default: all) */
+  limit?: number;
+}
+
+/**
+ * Options for {@link DynamoDBController.scan}
+ */
+export interface DynamoDBScanOptions<T> {
+  /** Condition on the items' attributes, applied to the items read */
+  filter?: Filter<T>;
+  /** Secondary index to scan instead of the table */
+  index?: string;
+  /** Most items to emit (default: all) */
+  limit?: number;
+  /** Segments to scan in parallel (default: 1) */
+  segments?: number;
+}
+
+/** A page of items from a Query or Scan */
+type Page = Pick<QueryCommandOutput, 'Items' | 'LastEvaluatedKey'>;
+
+/** Times `update` retries after a conflicting write */
+const UPDATE_RETRIES = 5;
+
+/**
+ * Thrown by a versioned `put` when the stored item's version is not the
+ * one being written over, because another writer changed (or removed) it.
+ *
+ * @typeParam T - The application-level type of the DynamoDB record
+ */
+export class ConcurrencyConflictError<T = unknown> extends Error {
+  constructor(
+    /** The item as currently stored, or undefined if it no longer exists */
+    public readonly current: T | undefined
+  ) {
+    super('Item was changed by another writer');
+    this.name = 'ConcurrencyConflictError';
+  }
 }
 
 /**
@@ -69,20 +202,33 @@ export type DynamoDBEvent<T = unknown> = ControllerEvent<
  * DynamoDB Streams controller compatible with RxJS fromEvent pattern.
  *
  * Provides singleton-per-table semantics with read and write operations:
- * - `put(value)`: write an item (stream emits 'modified')
+ * - `put(value)`: write an item (stream emits 'inserted' or 'modified')
+ * - `update(key, changes)`: change part of an item (stream emits 'inserted'
+ *   or 'modified')
+ * - `update(key, fn)`: read-modify-write an item (requires `versionAttribute`)
  * - `remove(key)`: delete an item (stream emits 'removed' or 'expired')
+ * - `query(options)`, `scan(options)`: read items, a page at a time
+ * - `watch(key)`: an item's current value, then its changes from the stream
  *
  * Event types:
- * - modified: INSERT or MODIFY events
+ * - inserted: INSERT events
+ * - modified: MODIFY events, with the `oldValue` and its `diff` when the
+ *   stream's view type includes old images
  * - removed: REMOVE events (manual deletion or before TTL)
  * - expired: REMOVE events due to TTL expiration
+ * - error: failed stream reads, as {@link ControllerError}s with the
+ *   operation and shard. Shard pollers restart after them.
  *
  * @example
  * ```typescript
  * const controller = DynamoDBController.from<MyType>(table);
  *
+ * fromEvent(controller, 'inserted').subscribe(event => {
+ *   console.log('Added:', event.key, event.value);
+ * });
+ *
  * fromEvent(controller, 'modified').subscribe(event => {
- *   console.log('Added/changed:', event.key, event.value);
+ *   console.log('Changed:', event.key, event.diff?.changed, event.value);
  * });
  *
  * controller.put({ id: '123', name: 'Alice' }).subscribe();
@@ -101,11 +247,18 @@ export class DynamoDBController<T = unknown> extends Controller<
     DynamoDBController<unknown>
   >();
 
+  /** Checkpoint store for controllers without a `checkpoints` option */
+  static DEFAULT_CHECKPOINTS: CheckpointStore = new MemoryCheckpointStore();
+
   // Configuration
   private readonly tableArn: string;
   private readonly streamArn: string;
   private readonly ttlAttribute: string | null;
   private readonly pollInterval: number;
+  private readonly versionAttribute: string | undefined;
+  private readonly startPosition: DynamoDBStartPosition;
+  private readonly checkpoints: CheckpointStore;
+  private readonly retry: Required<DynamoDBRetryOptions>;
 
   // AWS clients
   private readonly dynamoDBClient: DynamoDBDocumentClient;
@@ -114,8 +267,21 @@ export class DynamoDBController<T = unknown> extends Controller<
   // Shard management
   private readonly activeShards = new Map<
     string,
-    { iterator: string | null; subscription: Subscription }
+    {
+      iterator: string | null;
+      subscription: Subscription;
+      // Last record processed, to resume after when the poller restarts
+      sequenceNumber?: string;
+    }
   >();
+  // Shards read to the end, which DescribeStream lists for another 24 hours
+  private readonly closedShards = new Set<string>();
+  // Shards this run read from a real position: a checkpoint, the trim
+  // horizon, or while open. Their children continue from the trim horizon.
+  private readonly continuedShards = new Set<string>();
+  // Shards last listed by DescribeStream
+  private shards: Shard[] = [];
+  private checkpoint: Checkpoint | undefined;
 
   private constructor(
     tableArn: string,
@@ -129,6 +295,15 @@ export class DynamoDBController<T = unknown> extends Controller<
     this.ttlAttribute =
       'ttlAttribute' in options ? (options.ttlAttribute ?? null) : 'expires';
     this.pollInterval = options.pollInterval ?? 5000;
+    this.versionAttribute = options.versionAttribute;
+    this.startPosition = options.startPosition ?? 'LATEST';
+    this.checkpoints =
+      options.checkpoints ?? DynamoDBController.DEFAULT_CHECKPOINTS;
+    this.retry = {
+      count: options.retry?.count ?? 3,
+      delay: options.retry?.delay ?? 1000,
+      maxDelay: options.retry?.maxDelay ?? 10000,
+    };
     const clientConfig = options.clientConfig ?? {};
     this.dynamoDBClient = DynamoDBDocumentClient.from(
       new DynamoDBClient(clientConfig)
@@ -156,7 +331,7 @@ export class DynamoDBController<T = unknown> extends Controller<
   static from<T = unknown>(
     table: TableDescription,
     options: DynamoDBControllerOptions = {}
-  ): Controller<DynamoDBEvent<T>> {
+  ): DynamoDBController<T> {
     const tableArn = table.TableArn;
     const streamArn = table.LatestStreamArn;
 
@@ -193,7 +368,7 @@ export class DynamoDBController<T = unknown> extends Controller<
   static from$<T = unknown>(
     table: TableDescription,
     options: DynamoDBControllerOptions = {}
-  ): Observable<Controller<DynamoDBEvent<T>>> {
+  ): Observable<DynamoDBController<T>> {
     return defer(() => of(DynamoDBController.from<T>(table, options)));
   }
 
@@ -205,36 +380,34 @@ export class DynamoDBController<T = unknown> extends Controller<
 
     const aborted$ = this.abortable.aborted;
 
-    // Shard discovery loop
+    if (
+      typeof this.startPosition === 'object' &&
+      'checkpoint' in this.startPosition
+    ) {
+      this.checkpoint = new Checkpoint(
+        this.checkpoints,
+        `${this.tableArn}/${this.startPosition.checkpoint}`
+      );
+    }
+
+    // Shard discovery loop, which carries on at the next tick after errors
     this.streamSubscription = timer(0, this.pollInterval)
       .pipe(
         takeUntil(aborted$),
-        switchMap(() => this.discoverShards()),
+        switchMap(() =>
+          this.discoverShards().pipe(
+            catchError((err: ControllerError) => {
+              this.raise(err);
+              return EMPTY;
+            })
+          )
+        ),
         tap((shards) => {
-          // Start polling for any new shards
-          for (const shard of shards) {
-            if (!shard.ShardId || this.activeShards.has(shard.ShardId))
-              continue;
-
-            const shardSub = this.pollShard(
-              shard.ShardId,
-              aborted$
-            ).subscribe();
-            this.activeShards.set(shard.ShardId, {
-              iterator: null,
-              subscription: shardSub,
-            });
-          }
+          this.shards = shards;
+          this.pollShards(aborted$);
         })
       )
-      .subscribe({
-        error: (err) => {
-          if (!this.isAbortError(err)) {
-            // Error logged but not thrown - stream continues
-            void err;
-          }
-        },
-      });
+      .subscribe();
   }
 
   /**
@@ -250,6 +423,11 @@ export class DynamoDBController<T = unknown> extends Controller<
       shard.subscription.unsubscribe();
     });
     this.activeShards.clear();
+    this.continuedShards.clear();
+
+    // Commits already made are still written
+    this.checkpoint?.close();
+    this.checkpoint = undefined;
   }
 
   /**
@@ -264,21 +442,202 @@ export class DynamoDBController<T = unknown> extends Controller<
     this.streamsClient.destroy();
   }
 
-  /** Write an item to DynamoDB. The stream will emit a 'modified' event. */
+  /**
+   * Write an item to DynamoDB. The stream will emit an 'inserted' or
+   * 'modified' event.
+   *
+   * With a `versionAttribute`, the write only succeeds over the version in
+   * `value` (or if the item doesn't exist, when `value` has no version), and
+   * stores the next version. Otherwise it fails with a
+   * {@link ConcurrencyConflictError}.
+   */
   override put(value: Record<string, unknown> & T): Observable<void> {
+    return this.write(value).pipe(map(() => undefined as void));
+  }
+
+  /**
+   * Apply partial changes to an item with an UpdateExpression, creating it
+   * if it doesn't exist. The stream will emit an 'inserted' or 'modified'
+   * event. With a `versionAttribute`, the version is incremented too.
+   */
+  override update(
+    key: Record<string, unknown>,
+    changes: UpdateChanges
+  ): Observable<T>;
+  /**
+   * Read an item, apply `fn` and write the result, retrying from the read
+   * when another writer changes the item in between. `fn` receives the
+   * current item (undefined if it doesn't exist) and may be called more
+   * than once. Emits the item as written, with its new version.
+   */
+  override update(
+    key: Record<string, unknown>,
+    fn: (current: T | undefined) => T
+  ): Observable<T>;
+  override update(
+    key: Record<string, unknown>,
+    changes: UpdateChanges | ((current: T | undefined) => T)
+  ): Observable<T> {
+    return typeof changes === 'function'
+      ? this.modify(key, changes)
+      : this.change(key, changes);
+  }
+
+  private change(
+    key: Record<string, unknown>,
+    changes: UpdateChanges
+  ): Observable<T> {
+    const tableName = this.tableArn.split('/').pop();
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+
+    const name = (attribute: string): string => {
+      const placeholder = `#u${Object.keys(names).length}`;
+      names[placeholder] = attribute;
+      return placeholder;
+    };
+    const value = (v: unknown): string => {
+      const placeholder = `:u${Object.keys(values).length}`;
+      values[placeholder] = v;
+      return placeholder;
+    };
+
+    const set = [
+      ...Object.entries(changes.set ?? {}).map(
+        ([attribute, v]) => `${name(attribute)} = ${value(v)}`
+      ),
+      ...Object.entries(changes.append ?? {}).map(([attribute, v]) => {
+        const placeholder = name(attribute);
+        return `${placeholder} = list_append(if_not_exists(${placeholder}, ${value([])}), ${value(v)})`;
+      }),
+    ];
+    const remove = (changes.remove ?? []).map(name);
+    const add = Object.entries(changes.add ?? {}).map(
+      ([attribute, v]) => `${name(attribute)} ${value(v)}`
+    );
+    if (!set.length && !remove.length && !add.length) {
+      return throwError(
+        () => new Error('update() requires at least one change')
+      );
+    }
+    if (this.versionAttribute) {
+      add.push(`${name(this.versionAttribute)} ${value(1)}`);
+    }
+
+    const clauses = [
+      set.length ? `SET ${set.join(', ')}` : '',
+      remove.length ? `REMOVE ${remove.join(', ')}` : '',
+      add.length ? `ADD ${add.join(', ')}` : '',
+    ].filter((clause) => clause);
+
+    return defer(() =>
+      this.dynamoDBClient.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: key,
+          UpdateExpression: clauses.join(' '),
+          ExpressionAttributeNames: names,
+          ...(Object.keys(values).length
+            ? { ExpressionAttributeValues: values }
+            : {}),
+          ReturnValues: 'ALL_NEW',
+        }),
+        { abortSignal: this.abortable.signal }
+      )
+    ).pipe(
+      map((response) => response.Attributes as T),
+      catchError((err) => {
+        if (this.isAbortError(err)) return EMPTY;
+        throw err;
+      })
+    );
+  }
+
+  private modify(
+    key: Record<string, unknown>,
+    fn: (current: T | undefined) => T
+  ): Observable<T> {
+    const versionAttribute = this.versionAttribute;
+    if (!versionAttribute) {
+      return throwError(
+        () => new Error('update() requires a versionAttribute')
+      );
+    }
+
+    return defer(() => this.get(key)).pipe(
+      switchMap((current) => {
+        const value: Record<string, unknown> = { ...fn(current), ...key };
+        // Write over the version that was read, whatever fn returned
+        delete value[versionAttribute];
+        const version = (current as Record<string, unknown> | undefined)?.[
+          versionAttribute
+        ];
+        if (version !== undefined) {
+          value[versionAttribute] = version;
+        }
+        return this.write(value as Record<string, unknown> & T);
+      }),
+      retry({
+        count: UPDATE_RETRIES,
+        delay: (error, retryCount) => {
+          if (!(error instanceof ConcurrencyConflictError)) throw error;
+          return timer(Math.min(50 * Math.pow(2, retryCount), 1000));
+        },
+      })
+    );
+  }
+
+  /** Put an item, emitting it as written. */
+  private write(value: Record<string, unknown> & T): Observable<T> {
     const tableName = this.tableArn.split('/').pop();
+    const versionAttribute = this.versionAttribute;
+    const item: Record<string, unknown> = { ...value };
+    let condition: Partial<PutCommandInput> = {};
+
+    if (versionAttribute) {
+      const version = item[versionAttribute];
+      if (version !== undefined && typeof version !== 'number') {
+        return throwError(
+          () =>
+            new Error(`Version attribute ${versionAttribute} must be a number`)
+        );
+      }
+      item[versionAttribute] = (version ?? 0) + 1;
+      condition = {
+        ConditionExpression:
+          version === undefined
+            ? 'attribute_not_exists(#version)'
+            : '#version = :version',
+        ExpressionAttributeNames: { '#version': versionAttribute },
+        ...(version === undefined
+          ? {}
+          : { ExpressionAttributeValues: { ':version': version } }),
+        ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+      };
+    }
+
     return defer(() =>
       this.dynamoDBClient.send(
         new PutCommand({
           TableName: tableName,
-          Item: value as Record<string, unknown>,
+          Item: item,
+          ...condition,
         }),
         { abortSignal: this.abortable.signal }
       )
     ).pipe(
-      map(() => undefined as void),
+      map(() => item as T),
       catchError((err) => {
         if (this.isAbortError(err)) return EMPTY;
+        if (
+          versionAttribute &&
+          (err as { name?: string }).name === 'ConditionalCheckFailedException'
+        ) {
+          const { Item } = err as { Item?: Record<string, AttributeValue> };
+          throw new ConcurrencyConflictError<T>(
+            Item ? (unmarshall(Item) as T) : undefined
+          );
+        }
         throw err;
       })
     );
@@ -321,6 +680,112 @@ export class DynamoDBController<T = unknown> extends Controller<
     );
   }
 
+  /**
+   * Query items by key condition. Pages are read one at a time, and no
+   * more are read once `limit` items are emitted or on unsubscribe.
+   */
+  query(options: DynamoDBQueryOptions<T>): Observable<T> {
+    const tableName = this.tableArn.split('/').pop();
+    const key = compile(options.keyCondition, '', 'k');
+    const filter = compile(options.filter ?? {}, '', 'f');
+    if (!key.expression) {
+      return throwError(() => new Error('query() requires a keyCondition'));
+    }
+
+    const items$ = this.paginate((ExclusiveStartKey) =>
+      this.dynamoDBClient.send(
+        new QueryCommand({
+          TableName: tableName,
+          IndexName: options.index,
+          KeyConditionExpression: key.expression,
+          FilterExpression: filter.expression,
+          ...this.attributes(key, filter),
+          Limit: options.limit,
+          ExclusiveStartKey,
+        }),
+        { abortSignal: this.abortable.signal }
+      )
+    );
+    return options.limit === undefined
+      ? items$
+      : items$.pipe(take(options.limit));
+  }
+
+  /**
+   * Scan all items, optionally in parallel segments. Pages are read one at
+   * a time per segment, and no more are read once `limit` items are
+   * emitted or on unsubscribe.
+   */
+  scan(options: DynamoDBScanOptions<T> = {}): Observable<T> {
+    const tableName = this.tableArn.split('/').pop();
+    const filter = compile(options.filter ?? {}, '', 'f');
+    const segments = options.segments ?? 1;
+
+    const items$ = merge(
+      ...Array.from({ length: segments }, (_, segment) =>
+        this.paginate((ExclusiveStartKey) =>
+          this.dynamoDBClient.send(
+            new ScanCommand({
+              TableName: tableName,
+              IndexName: options.index,
+              FilterExpression: filter.expression,
+              ...this.attributes(filter),
+              Limit: options.limit,
+              ...(segments > 1
+                ? { Segment: segment, TotalSegments: segments }
+                : {}),
+              ExclusiveStartKey,
+            }),
+            { abortSignal: this.abortable.signal }
+          )
+        )
+      )
+    );
+    return options.limit === undefined
+      ? items$
+      : items$.pipe(take(options.limit));
+  }
+
+  /**
+   * Emit the items of a page, then of the pages after it.
+   */
+  private paginate(
+    page: (start?: Record<string, unknown>) => Promise<Page>
+  ): Observable<T> {
+    return defer(() => page()).pipe(
+      // The next page is read after this one's items are emitted, so not at
+      // all once the subscriber has taken enough
+      expand(({ LastEvaluatedKey }) =>
+        LastEvaluatedKey
+          ? defer(() => page(LastEvaluatedKey)).pipe(subscribeOn(asapScheduler))
+          : EMPTY
+      ),
+      concatMap(({ Items = [] }) => Items as T[]),
+      catchError((err) => {
+        if (this.isAbortError(err)) return EMPTY;
+        throw err;
+      })
+    );
+  }
+
+  /**
+   * Expression attribute names and values of compiled expressions, which
+   * DynamoDB rejects when empty.
+   */
+  private attributes(...expressions: FilterExpression[]): {
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+  } {
+    const names = Object.assign({}, ...expressions.map((e) => e.names));
+    const values = Object.assign({}, ...expressions.map((e) => e.values));
+    return {
+      ...(Object.keys(names).length ? { ExpressionAttributeNames: names } : {}),
+      ...(Object.keys(values).length
+        ? { ExpressionAttributeValues: values }
+        : {}),
+    };
+  }
+
   private discoverShards(): Observable<Shard[]> {
     return defer(() =>
       this.streamsClient.send(
@@ -332,25 +797,65 @@ export class DynamoDBController<T = unknown> extends Controller<
       catchError((err) => {
         if (this.isAbortError(err)) return of([]);
         throw err;
-      })
+      }),
+      this.failed('DescribeStream')
     );
   }
 
+  /**
+   * Rethrow errors, other than aborts, as a {@link ControllerError} of an
+   * operation
+   */
+  private failed<R>(
+    operation: string,
+    shardId?: string
+  ): MonoTypeOperatorFunction<R> {
+    return catchError((err) => {
+      if (this.isAbortError(err) || err instanceof ControllerError) throw err;
+      throw new ControllerError(operation, err, shardId);
+    });
+  }
+
+  /**
+   * Start polling listed shards that aren't polled yet.
+   *
+   * A shard split or rotated from a parent only starts once the parent is
+   * read to the end, so that records for a key are delivered in the order
+   * they were written. It starts from its oldest record if this run read
+   * the parent from a real position, and otherwise (e.g. a parent already
+   * closed when read at LATEST) from the start position.
+   */
+  private pollShards(aborted$: Observable<void>): void {
+    const listed = new Set(this.shards.map((shard) => shard.ShardId));
+
+    for (const { ShardId: shardId, ParentShardId: parentId } of this.shards) {
+      if (
+        !shardId ||
+        this.activeShards.has(shardId) ||
+        this.closedShards.has(shardId)
+      )
+        continue;
+
+      // Parents no longer listed have been trimmed from the stream
+      const parentClosed = !!parentId && this.closedShards.has(parentId);
+      if (parentId && listed.has(parentId) && !parentClosed) continue;
+      const continued = !!parentId && this.continuedShards.has(parentId);
+
+      const shardSub = this.pollShard(shardId, continued, aborted$).subscribe();
+      this.activeShards.set(shardId, {
+        iterator: null,
+        subscription: shardSub,
+      });
+    }
+  }
+
   private pollShard(
     shardId: string,
+    continued: boolean,
     aborted$: Observable<void>
   ): Observable<void> {
     // First get the shard iterator
-    return defer(() =>
-      this.streamsClient.send(
-        new GetShardIteratorCommand({
-          StreamArn: this.streamArn,
-          ShardId: shardId,
-          ShardIteratorType: 'LATEST',
-        }),
-        { abortSignal: this.abortable.signal }
-      )
-    ).pipe(
+    return this.shardIterator(shardId, continued).pipe(
       // Switch to GetRecords loop using the iterator
       switchMap((iteratorResponse) => {
         const initialIterator = iteratorResponse.ShardIterator;
@@ -360,15 +865,21 @@ export class DynamoDBController<T = unknown> extends Controller<
         }
 
         // Start the polling loop with GetRecords
-        return this.getRecords(initialIterator).pipe(
+        return this.getRecords(shardId, initialIterator).pipe(
           expand((response) => {
             const nextIterator = response.NextShardIterator;
             if (!nextIterator) {
               // Shard is closed
               this.activeShards.delete(shardId);
+              this.closedShards.add(shardId);
+              // Its children can start now
+              this.pollShards(aborted$);
               return EMPTY;
             }
 
+            // The shard was open when read, so its children follow on
+            this.continuedShards.add(shardId);
+
             // Update stored iterator
             const shardInfo = this.activeShards.get(shardId);
             if (shardInfo) {
@@ -377,54 +888,132 @@ export class DynamoDBController<T = unknown> extends Controller<
 
             return timer(this.pollInterval).pipe(
               takeUntil(aborted$),
-              switchMap(() => this.getRecords(nextIterator))
+              switchMap(() => this.getRecords(shardId, nextIterator))
             );
           }),
           tap((response) => {
             if (response.Records && response.Records.length > 0) {
-              this.processRecords(response.Records);
+              this.continuedShards.add(shardId);
+              this.processRecords(shardId, response.Records);
             }
           })
         );
       }),
-      // Retry transient errors with backoff
+      // Any other failure while polling, e.g. a throwing checkpoint store
+      this.failed('PollShard', shardId),
+      // Retry transient errors with backoff, counting only consecutive ones
       retry({
-        count: 3,
+        count: this.retry.count,
+        resetOnSuccess: true,
         delay: (error, retryCount) => {
           if (this.isAbortError(error)) throw error;
-          return timer(Math.min(1000 * Math.pow(2, retryCount), 10000));
+          return timer(
+            Math.min(
+              this.retry.delay * Math.pow(2, retryCount - 1),
+              this.retry.maxDelay
+            )
+          );
         },
       }),
-      takeUntil(aborted$),
-      catchError((err) => {
-        if (!this.isAbortError(err)) {
-          // Error logged but not thrown
-          void err;
+      // Then report the error and restart, resuming after the last record
+      catchError((err: ControllerError, caught) => {
+        if (this.isAbortError(err)) {
+          this.activeShards.delete(shardId);
+          return EMPTY;
         }
-        this.activeShards.delete(shardId);
-        return EMPTY;
+        this.raise(err);
+        return timer(this.retry.maxDelay).pipe(switchMap(() => caught));
       }),
+      takeUntil(aborted$),
       // Ignore values, we only care about side effects
       switchMap(() => EMPTY)
     );
   }
 
-  private getRecords(iterator: string): Observable<GetRecordsCommandOutput> {
+  /**
+   * Get an iterator for a shard: right after the last record processed
+   * (by this poller, or by the checkpoint's consumer), otherwise at the
+   * oldest record to continue from a parent, or at the start position.
+   */
+  private shardIterator(
+    shardId: string,
+    continued: boolean
+  ): Observable<GetShardIteratorCommandOutput> {
+    return defer(() => {
+      const sequenceNumber = this.activeShards.get(shardId)?.sequenceNumber;
+      if (sequenceNumber) {
+        return of<Checkpoints>({ [shardId]: sequenceNumber });
+      }
+      return this.checkpoint?.positions() ?? of<Checkpoints>({});
+    }).pipe(
+      switchMap((positions) => {
+        const position = positions[shardId];
+        const type = continued ? 'TRIM_HORIZON' : this.initialIteratorType;
+        if (position || type === 'TRIM_HORIZON') {
+          this.continuedShards.add(shardId);
+        }
+        return this.streamsClient.send(
+          new GetShardIteratorCommand({
+            StreamArn: this.streamArn,
+            ShardId: shardId,
+            ...(position
+              ? {
+                  ShardIteratorType: 'AFTER_SEQUENCE_NUMBER',
+                  SequenceNumber: position,
+                }
+              : { ShardIteratorType: type }),
+          }),
+          { abortSignal: this.abortable.signal }
+        );
+      }),
+      this.failed('GetShardIterator', shardId)
+    );
+  }
+
+  /** Iterator type for shards without a position to resume after */
+  private get initialIteratorType(): 'LATEST' | 'TRIM_HORIZON' {
+    const start = this.startPosition;
+    if (typeof start === 'string') return start;
+    if ('timestamp' in start) return 'TRIM_HORIZON';
+    return start.initial ?? 'TRIM_HORIZON';
+  }
+
+  private getRecords(
+    shardId: string,
+    iterator: string
+  ): Observable<GetRecordsCommandOutput> {
     return defer(() =>
       this.streamsClient.send(
         new GetRecordsCommand({ ShardIterator: iterator }),
         { abortSignal: this.abortable.signal }
       )
-    );
+    ).pipe(this.failed('GetRecords', shardId));
   }
 
-  private processRecords(records: _Record[]): void {
+  private processRecords(shardId: string, records: _Record[]): void {
+    const start = this.startPosition;
+    // Creation times are rounded down to the second
+    const since =
+      typeof start === 'object' && 'timestamp' in start
+        ? new Date(Math.floor(start.timestamp.getTime() / 1000) * 1000)
+        : undefined;
+
     for (const record of records) {
       const event = this.classifyRecord(record);
-      if (event) {
+      if (event && !(since && event.timestamp < since)) {
         this.allEvents$.next(event);
       }
     }
+
+    const sequenceNumber =
+      records[records.length - 1]?.dynamodb?.SequenceNumber;
+    const shard = this.activeShards.get(shardId);
+    if (sequenceNumber) {
+      if (shard) {
+        shard.sequenceNumber = sequenceNumber;
+      }
+      this.checkpoint?.commit(shardId, sequenceNumber);
+    }
   }
 
   private classifyRecord(record: _Record): DynamoDBEvent<T> | null {
@@ -458,12 +1047,24 @@ export class DynamoDBController<T = unknown> extends Controller<
 
     const base = { eventName, timestamp, sequenceNumber, raw: record };
 
-    if (eventName === 'INSERT' || eventName === 'MODIFY') {
+    if (eventName === 'INSERT') {
+      if (!newImage) return null;
+      return {
+        type: 'inserted',
+        key,
+        value: newImage,
+        ...base,
+      };
+    } else if (eventName === 'MODIFY') {
       if (!newImage) return null;
+      // Streams with a NEW_IMAGE view type have no old image
       return {
         type: 'modified',
         key,
         value: newImage,
+        ...(oldImage
+          ? { oldValue: oldImage, diff: diff(oldImage, newImage) }
+          : {}),
         ...base,
       };
     } else if (eventName === 'REMOVE') {
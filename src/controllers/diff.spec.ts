@@ -0,0 +1,59 @@
+/* global describe, it, expect */
+import { diff } from './diff';
+
+describe('diff', () => {
+  it('finds changed, added and removed fields', () => {
+    expect(diff({ a: 1, b: 'x', c: true }, { a: 2, b: 'x', d: null })).toEqual({
+      changed: ['a'],
+      added: ['d'],
+      removed: ['c'],
+    });
+  });
+
+  it('compares nested objects by path', () => {
+    expect(
+      diff(
+        { user: { name: 'Alice', address: { city: 'Paris' } } },
+        { user: { name: 'Alice', address: { city: 'Lyon', zip: '69001' } } }
+      )
+    ).toEqual({
+      changed: ['user.address.city'],
+      added: ['user.address.zip'],
+      removed: [],
+    });
+  });
+
+  it('compares lists, sets and binary values as a whole', () => {
+    const before = {
+      list: [1, { a: 1 }],
+      set: new Set(['a', 'b']),
+      bytes: new Uint8Array([1, 2]),
+    };
+    expect(
+      diff(before, {
+        list: [1, { a: 1 }],
+        set: new Set(['b', 'a']),
+        bytes: new Uint8Array([1, 2]),
+      })
+    ).toEqual({ changed: [], added: [], removed: [] });
+    expect(
+      diff(before, {
+        list: [1, { a: 2 }],
+        set: new Set(['a']),
+        bytes: new Uint8Array([1, 3]),
+      }).changed
+    ).toEqual(['list', 'set', 'bytes']);
+  });
+
+  it('treats an object replacing a value as a change', () => {
+    expect(diff({ a: 'x' }, { a: { b: 1 } })).toEqual({
+      changed: ['a'],
+      added: [],
+      removed: [],
+    });
+  });
+
+  it('has no fields to compare for other values', () => {
+    expect(diff('a', 'b')).toEqual({ changed: [], added: [], removed: [] });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Field-level differences between two values, as dotted paths (as in
+ * snapshot filters, e.g. `'user.name'`). Nested objects are compared field
+ * by field, and anything else (arrays, sets, binary) as a whole.
+ */
+export type ControllerDiff = {
+  /** Paths holding a different value */
+  changed: string[];
+  /** Paths only in the new value */
+  added: string[];
+  /** Paths only in the old value */
+  removed: string[];
+};
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const equal = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+    return false;
+  }
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && [...a].every((v) => b.has(v));
+  }
+  if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    return Buffer.from(a.buffer, a.byteOffset, a.byteLength).equals(
+      Buffer.from(b.buffer, b.byteOffset, b.byteLength)
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => equal(v, b[i]));
+  }
+  if (isFields(a) && isFields(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && equal(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/**
+ * Compute the field-level differences from `before` to `after`. Values
+ * that aren't objects have no fields to differ.
+ */
+export const diff = (before: unknown, after: unknown): ControllerDiff => {
+  const result: ControllerDiff = { changed: [], added: [], removed: [] };
+
+  const compare = (a: Fields, b: Fields, prefix: string): void => {
+    for (const key of Object.keys(a)) {
+      const path = `${prefix}${key}`;
+      if (!(key in b)) {
+        result.removed.push(path);
+      } else if (isFields(a[key]) && isFields(b[key])) {
+        compare(a[key], b[key], `${path}.`);
+      } else if (!equal(a[key], b[key])) {
+        result.changed.push(path);
+      }
+    }
+    for (const key of Object.keys(b)) {
+      if (!(key in a)) {
+        result.added.push(`${prefix}${key}`);
+      }
+    }
+  };
+
+  if (isFields(before) && isFields(after)) {
+    compare(before, after, '');
+  }
+  return result;
+};
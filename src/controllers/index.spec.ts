@@ -2,7 +2,14 @@
 import { Observable, of, Subscription } from 'rxjs';
 import { fromEvent } from '../observables/fromEvent';
 import { Abortable } from '../util/abortable';
-import { Controller, ControllerEvent, ControllerOptions } from './index';
+import {
+  Controller,
+  ControllerError,
+  ControllerErrorEvent,
+  ControllerEvent,
+  ControllerOptions,
+  UpdateChanges,
+} from './index';
 
 type TestEvent = ControllerEvent<string, string>;
 
@@ -13,6 +20,7 @@ class TestController extends Controller<TestEvent> {
   public startCalled = 0;
   public stopCalled = 0;
   public onDisposeCalled = 0;
+  public values = new Map<string, string>();
 
   private static instances = new Map<string, TestController>();
   private readonly _id: string;
@@ -45,13 +53,18 @@ class TestController extends Controller<TestEvent> {
     return of(undefined as void);
   }
 
+  override update(key: string, _changes: UpdateChanges): Observable<string> {
+    this.allEvents$.next({ type: 'modified', key, value: key });
+    return of(key);
+  }
+
   override remove(key: string): Observable<void> {
     this.allEvents$.next({ type: 'removed', key, value: key });
     return of(undefined as void);
   }
 
-  override get(_key: string): Observable<string | undefined> {
-    return of(undefined);
+  override get(key: string): Observable<string | undefined> {
+    return of(this.values.get(key));
   }
 
   // Expose allEvents$ for testing
@@ -59,6 +72,11 @@ class TestController extends Controller<TestEvent> {
     this.allEvents$.next(event);
   }
 
+  // Expose raise for testing
+  fail(error: ControllerError): void {
+    this.raise(error);
+  }
+
   static clearInstances(): void {
     TestController.instances.clear();
   }
@@ -150,6 +168,21 @@ describe('Controller', () => {
   });
 
   describe('event routing', () => {
+    it('routes inserted events to inserted listeners', () => {
+      const events: TestEvent[] = [];
+      const sub = fromEvent(controller, 'inserted').subscribe((e) =>
+        events.push(e)
+      );
+      subscriptions.push(sub);
+
+      controller.emit({ type: 'inserted', key: 'k', value: 'new' });
+      controller.emit({ type: 'modified', key: 'k', value: 'changed' });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.type).toBe('inserted');
+      expect(events[0]!.value).toBe('new');
+    });
+
     it('routes modified events to modified listeners', () => {
       const events: TestEvent[] = [];
       const sub = fromEvent(controller, 'modified').subscribe((e) =>
@@ -243,6 +276,91 @@ describe('Controller', () => {
     });
   });
 
+  describe('error events', () => {
+    it('delivers errors to error listeners', () => {
+      const errors: ControllerErrorEvent[] = [];
+      subscriptions.push(
+        fromEvent(controller, 'error').subscribe((e) => errors.push(e))
+      );
+
+      const error = new ControllerError('GetRecords', new Error('boom'), 's1');
+      controller.fail(error);
+
+      expect(errors).toEqual([{ type: 'error', error }]);
+      expect(error.message).toBe('GetRecords failed on shard s1: boom');
+      expect(error.shardId).toBe('s1');
+    });
+
+    it('does not start streaming for error listeners', async () => {
+      const listener = jest.fn();
+
+      controller.addEventListener('error', listener);
+      expect(controller.startCalled).toBe(0);
+
+      controller.removeEventListener('error', listener);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.fail(new ControllerError('DescribeStream', 'down'));
+
+      expect(controller.stopCalled).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch()', () => {
+    it('emits the current value, then changes to the key', () => {
+      controller.values.set('k', 'current');
+      const values: (string | undefined)[] = [];
+      subscriptions.push(
+        controller.watch('k').subscribe((v) => values.push(v))
+      );
+
+      controller.emit({ type: 'modified', key: 'other', value: 'skipped' });
+      controller.emit({ type: 'modified', key: 'k', value: 'changed' });
+      controller.emit({ type: 'removed', key: 'k', value: 'changed' });
+      controller.emit({ type: 'inserted', key: 'k', value: 'again' });
+
+      expect(values).toEqual(['current', 'changed', undefined, 'again']);
+    });
+
+    it('completes on removal with untilRemoved', () => {
+      const values: (string | undefined)[] = [];
+      let completed = false;
+      subscriptions.push(
+        controller.watch('k', { untilRemoved: true }).subscribe({
+          next: (v) => values.push(v),
+          complete: () => (completed = true),
+        })
+      );
+
+      controller.emit({ type: 'inserted', key: 'k', value: 'new' });
+      controller.emit({ type: 'expired', key: 'k', value: 'new' });
+
+      expect(values).toEqual([undefined, 'new']);
+      expect(completed).toBe(true);
+    });
+
+    it('streams once for all watchers', async () => {
+      const first = controller.watch('a').subscribe();
+      const second = controller.watch('b').subscribe();
+      expect(controller.startCalled).toBe(1);
+
+      first.unsubscribe();
+      expect(controller.stopCalled).toBe(0);
+      second.unsubscribe();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(controller.stopCalled).toBe(1);
+    });
+
+    it('completes watchers on dispose', () => {
+      let completed = false;
+      controller.watch('k').subscribe({ complete: () => (completed = true) });
+
+      controller.dispose();
+
+      expect(completed).toBe(true);
+    });
+  });
+
   describe('signal and track', () => {
     it('exposes AbortSignal via signal getter', () => {
       expect(controller.signal).toBeInstanceOf(AbortSignal);
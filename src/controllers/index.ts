@@ -7,9 +7,11 @@ import {
   HasEventTargetAddRemove,
 } from 'rxjs/internal/observable/fromEvent';
 import { Abortable } from '../util/abortable';
+import { ControllerDiff } from './diff';
 
-/** Event classification for controller state changes */
-export type EventType = 'modified' | 'removed' | 'expired';
+/** Event classification for controller state changes, and stream errors */
+export type EventType =
+  'inserted' | 'modified' | 'removed' | 'expired' | 'error';
 
 /** Callback or object-based event listener compatible with RxJS fromEvent */
 export type EventListener<E> = ((evt: E) => void) | EventListenerObject<E>;
@@ -20,6 +22,12 @@ type TypedSubscription = {
   sub: Subscription;
 };
 
+/** @internal Receives the events routed to a watched key */
+type Watcher<E> = {
+  next: (event: E) => void;
+  complete: () => void;
+};
+
 /**
  * Allowed key types for controller values.
  *
@@ -37,7 +45,63 @@ export type ControllerKey = string | number | Record<string, unknown>;
 export type ControllerEvent<
   K extends ControllerKey = ControllerKey,
   V = unknown,
-> = { type: EventType; key: K; value: V };
+> = {
+  type: Exclude<EventType, 'error'>;
+  key: K;
+  value: V;
+  /** The value before a modification, when the data source provides it */
+  oldValue?: V;
+  /** What a modification changed, when `oldValue` is known */
+  diff?: ControllerDiff;
+};
+
+/**
+ * Error raised while a controller streams, with the operation (and shard,
+ * for stream reads) that failed.
+ */
+export class ControllerError extends Error {
+  constructor(
+    /** The operation that failed, e.g. 'GetRecords' */
+    public readonly operation: string,
+    /** The error the operation failed with */
+    public readonly reason: unknown,
+    /** The shard being read, if any */
+    public readonly shardId?: string
+  ) {
+    super(
+      `${operation} failed${shardId ? ` on shard ${shardId}` : ''}: ${
+        reason instanceof Error ? reason.message : String(reason)
+      }`
+    );
+    this.name = 'ControllerError';
+  }
+}
+
+/** Event emitted to 'error' listeners when a controller fails to stream */
+export type ControllerErrorEvent = { type: 'error'; error: ControllerError };
+
+/**
+ * Partial changes to a value, applied by {@link Controller.update} by
+ * top-level attribute name.
+ */
+export type UpdateChanges = {
+  /** Attributes to set */
+  set?: Record<string, unknown>;
+  /** Attributes to remove */
+  remove?: string[];
+  /** Numbers to add to atomically (negative to subtract), from 0 if missing */
+  add?: Record<string, number>;
+  /** List attributes to append to, from an empty list if missing */
+  append?: Record<string, unknown[]>;
+};
+
+/**
+ * Options for {@link Controller.watch}
+ */
+export interface WatchOptions {
+  /** Complete when the value is removed or expires, instead of emitting undefined */
+  untilRemoved?: boolean;
+}
 
 /**
  * Base options for all controllers
@@ -51,9 +115,11 @@ export interface ControllerOptions {
  * Abstract base class for event-emitting controllers.
  *
  * Provides:
- * - Event bus with three event types: modified, removed, expired
+ * - Event bus with four event types: inserted, modified, removed, expired
+ * - 'error' events for failures while streaming
  * - Lifecycle management via Abortable
  * - Ref-counted streaming (starts/stops based on listeners)
+ * - Key-scoped watching via `watch(key)`, with watchers indexed by key
  * - HasEventTargetAddRemove interface for RxJS fromEvent compatibility
  *
  * Subclasses must implement:
@@ -61,7 +127,8 @@ export interface ControllerOptions {
  * - `start()`: begin producing events
  * - `stop()`: stop producing events
  * - `onDispose()`: cleanup specific to the subclass
- * - `put(value)`: write a value (the data source emits a 'modified' event)
+ * - `put(value)`: write a value (the data source emits an 'inserted' or 'modified' event)
+ * - `update(key, changes)`: change part of a value (the data source emits an 'inserted' or 'modified' event)
  * - `remove(key)`: delete a value by key (the data source emits a 'removed' event)
  */
 export abstract class Controller<
@@ -69,7 +136,10 @@ export abstract class Controller<
 > implements HasEventTargetAddRemove<E>
 {
   // Listener tracking for addEventListener/removeEventListener
-  private subscriptions = new Map<EventListener<E>, TypedSubscription>();
+  private subscriptions = new Map<
+    EventListener<E> | EventListener<ControllerErrorEvent>,
+    TypedSubscription
+  >();
 
   // Lifecycle management
   protected readonly abortable: Abortable<void>;
@@ -78,14 +148,22 @@ export abstract class Controller<
   protected readonly allEvents$ = new Subject<E>();
 
   // Filtered observables for each event type (shared)
+  protected readonly inserted$: Observable<E>;
   protected readonly modified$: Observable<E>;
   protected readonly removed$: Observable<E>;
   protected readonly expired$: Observable<E>;
 
+  // Stream errors, for 'error' listeners
+  protected readonly errors$ = new Subject<ControllerErrorEvent>();
+
   // Stream management
   protected streamSubscription: Subscription | undefined;
   protected listenerCount = 0;
 
+  // Watchers by canonical key, fed by one subscription to the event bus
+  private readonly watchers = new Map<string, Set<Watcher<E>>>();
+  private watchRouter: Subscription | undefined;
+
   // Disposal guard
   private disposed = false;
 
@@ -106,6 +184,7 @@ export abstract class Controller<
     const shared$ = this.allEvents$.pipe(
       shareReplay({ bufferSize: 0, refCount: true })
     );
+    this.inserted$ = shared$.pipe(filter((e) => e.type === 'inserted'));
     this.modified$ = shared$.pipe(filter((e) => e.type === 'modified'));
     this.removed$ = shared$.pipe(filter((e) => e.type === 'removed'));
     this.expired$ = shared$.pipe(filter((e) => e.type === 'expired'));
@@ -134,9 +213,21 @@ export abstract class Controller<
    */
   protected abstract onDispose(): void;
 
-  /** Write a value, emitting a 'modified' event via the underlying data source */
+  /**
+   * Write a value, emitting an 'inserted' (new key) or 'modified' event via
+   * the underlying data source
+   */
   public abstract put(value: E['key'] & E['value']): Observable<void>;
 
+  /**
+   * Apply partial changes to a value, emitting an 'inserted' or 'modified'
+   * event via the underlying data source. Emits the value as changed.
+   */
+  public abstract update(
+    key: E['key'],
+    changes: UpdateChanges
+  ): Observable<E['value']>;
+
   /** Delete a value by key, emitting a 'removed' event via the underlying data source */
   public abstract remove(key: E['key']): Observable<void>;
 
@@ -144,15 +235,26 @@ export abstract class Controller<
   public abstract get(key: E['key']): Observable<E['value'] | undefined>;
 
   /**
-   * Subscribe to events of a specific type
+   * Deliver a streaming failure to 'error' listeners
    */
-  protected on(type: EventType, listener: EventListener<E>): Subscription {
-    const source$ = this.getObservableForType(type);
+  protected raise(error: ControllerError): void {
+    this.errors$.next({ type: 'error', error });
+  }
+
+  /**
+   * Subscribe to events of a specific type. 'error' listeners don't start
+   * streaming on their own.
+   */
+  protected on(
+    type: EventType,
+    listener: EventListener<E> | EventListener<ControllerErrorEvent>
+  ): Subscription {
+    const source$: Observable<E | ControllerErrorEvent> =
+      type === 'error' ? this.errors$ : this.getObservableForType(type);
 
     // Increment listener count and start streaming if needed
-    this.listenerCount++;
-    if (this.listenerCount === 1) {
-      this.start();
+    if (type !== 'error') {
+      this.retain();
     }
 
     // Create subscription that calls the listener
@@ -160,10 +262,11 @@ export abstract class Controller<
       .pipe(takeUntil(this.abortable.aborted))
       .subscribe({
         next: (event) => {
-          if (typeof listener === 'function') {
-            listener(event);
-          } else if (listener && typeof listener.handleEvent === 'function') {
-            listener.handleEvent(event);
+          const handler = listener as EventListener<E | ControllerErrorEvent>;
+          if (typeof handler === 'function') {
+            handler(event);
+          } else if (handler && typeof handler.handleEvent === 'function') {
+            handler.handleEvent(event);
           }
         },
       });
@@ -171,6 +274,121 @@ export abstract class Controller<
     return subscription;
   }
 
+  /** Count a listener, starting streaming for the first */
+  private retain(): void {
+    this.listenerCount++;
+    if (this.listenerCount === 1) {
+      this.start();
+    }
+  }
+
+  /**
+   * Watch the value at a key. Emits its current value (or undefined) from
+   * `get()`, then the value after every insert or modification, and
+   * undefined when it's removed or expires (or completes instead, with
+   * `untilRemoved`). Changes streamed while the current value is read are
+   * emitted after it.
+   *
+   * Watchers are indexed by key, so each event is only handed to the
+   * watchers of its own key. They count as one listener for streaming.
+   */
+  public watch(
+    key: E['key'],
+    options: WatchOptions = {}
+  ): Observable<E['value'] | undefined> {
+    return new Observable<E['value'] | undefined>((subscriber) => {
+      const id = this.keyOf(key);
+      // Events held until the current value is read
+      let pending: E[] | undefined = [];
+
+      const deliver = (event: E): void => {
+        if (event.type !== 'removed' && event.type !== 'expired') {
+          subscriber.next(event.value);
+        } else if (options.untilRemoved) {
+          subscriber.complete();
+        } else {
+          subscriber.next(undefined);
+        }
+      };
+
+      const watcher: Watcher<E> = {
+        next: (event) => (pending ? pending.push(event) : deliver(event)),
+        complete: () => subscriber.complete(),
+      };
+      this.addWatcher(id, watcher);
+
+      const current = this.get(key).subscribe({
+        next: (value) => subscriber.next(value),
+        error: (err) => subscriber.error(err),
+        complete: () => {
+          const held = pending ?? [];
+          pending = undefined;
+          held.forEach(deliver);
+        },
+      });
+
+      return () => {
+        current.unsubscribe();
+        this.removeWatcher(id, watcher);
+      };
+    });
+  }
+
+  /**
+   * Canonical form of a key, for indexing watchers. Composite keys are
+   * equal regardless of attribute order.
+   */
+  protected keyOf(key: E['key']): string {
+    if (typeof key !== 'object') {
+      return JSON.stringify(key);
+    }
+    return JSON.stringify(
+      Object.keys(key)
+        .sort()
+        .map((name) => [name, key[name]])
+    );
+  }
+
+  private addWatcher(id: string, watcher: Watcher<E>): void {
+    const watchers = this.watchers.get(id) ?? new Set<Watcher<E>>();
+    watchers.add(watcher);
+    this.watchers.set(id, watchers);
+    if (this.watchRouter) return;
+
+    this.retain();
+    this.watchRouter = this.allEvents$
+      .pipe(takeUntil(this.abortable.aborted))
+      .subscribe({
+        next: (event) => {
+          const watchers = this.watchers.get(this.keyOf(event.key));
+          [...(watchers ?? [])].forEach((w) => w.next(event));
+        },
+        complete: () => {
+          [...this.watchers.values()]
+            .flatMap((watchers) => [...watchers])
+            .forEach((w) => w.complete());
+        },
+      });
+  }
+
+  private removeWatcher(id: string, watcher: Watcher<E>): void {
+    const watchers = this.watchers.get(id);
+    if (!watchers?.delete(watcher)) return;
+    if (!watchers.size) {
+      this.watchers.delete(id);
+    }
+    if (this.watchers.size || !this.watchRouter) return;
+
+    const router = this.watchRouter;
+    this.watchRouter = undefined;
+    if (this.disposed) {
+      // Already stopped
+      router.unsubscribe();
+      return;
+    }
+    this.off(router).subscribe();
+  }
+
   /**
    * Unsubscribe from events
    */
@@ -189,8 +407,12 @@ export abstract class Controller<
     });
   }
 
-  private getObservableForType(type: EventType): Observable<E> {
+  private getObservableForType(
+    type: Exclude<EventType, 'error'>
+  ): Observable<E> {
     switch (type) {
+      case 'inserted':
+        return this.inserted$;
       case 'modified':
         return this.modified$;
       case 'removed':
@@ -202,22 +424,48 @@ export abstract class Controller<
     }
   }
 
+  addEventListener(
+    type: 'error',
+    listener: EventListener<ControllerErrorEvent>,
+    _options?: boolean | AddEventListenerOptions
+  ): void;
   addEventListener(
     type: EventType,
     listener: EventListener<E>,
     _options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: EventType,
+    listener: EventListener<E> | EventListener<ControllerErrorEvent>,
+    _options?: boolean | AddEventListenerOptions
   ): void {
     const sub = this.on(type, listener);
     this.subscriptions.set(listener, { sub, type });
   }
 
+  removeEventListener(
+    type: 'error',
+    listener: EventListener<ControllerErrorEvent>,
+    _options?: EventListenerOptions | boolean
+  ): void;
   removeEventListener(
     type: EventType,
     listener: EventListener<E>,
     _options?: EventListenerOptions | boolean
+  ): void;
+  removeEventListener(
+    type: EventType,
+    listener: EventListener<E> | EventListener<ControllerErrorEvent>,
+    _options?: EventListenerOptions | boolean
   ): void {
     const subscription = this.subscriptions.get(listener);
     if (!subscription || subscription.type !== type) return;
+    if (type === 'error') {
+      // Not counted as a streaming listener
+      subscription.sub.unsubscribe();
+      this.subscriptions.delete(listener);
+      return;
+    }
     this.off(subscription.sub).subscribe(() => {
       this.subscriptions.delete(listener);
     });
@@ -252,6 +500,7 @@ export abstract class Controller<
 
     // Complete subjects
     this.allEvents$.complete();
+    this.errors$.complete();
 
     // Abort the lifecycle node
     this.abortable.dispose();
@@ -267,8 +516,15 @@ export abstract class Controller<
   }
 }
 
+export { ControllerDiff } from './diff';
+
 export {
+  ConcurrencyConflictError,
   DynamoDBController,
   DynamoDBControllerOptions,
   DynamoDBEvent,
+  DynamoDBQueryOptions,
+  DynamoDBRetryOptions,
+  DynamoDBScanOptions,
+  DynamoDBStartPosition,
 } from './aws/dynamodb';
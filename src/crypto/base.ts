@@ -0,0 +1,23 @@
+import { Observable } from 'rxjs';
+
+/** A data key wrapped under a master key, and the ID of that master key */
+export type WrappedKey = {
+  keyId: string;
+  key: string; // Base64
+};
+
+/**
+ * Wraps and unwraps data keys with master keys.
+ *
+ * New data keys are wrapped under the current master key, and the key ID is
+ * stored with each record, so master keys can be rotated while older
+ * records stay readable. Both operations are asynchronous, so master keys
+ * can be held by a remote service such as a KMS; the codec caches the data
+ * keys it resolves, so each one is only wrapped or unwrapped once.
+ */
+export interface KeyProvider {
+  /** Wrap a data key under the current master key */
+  wrap(dataKey: Buffer): Observable<WrappedKey>;
+  /** Unwrap a data key with the master key it was wrapped under */
+  unwrap(wrapped: WrappedKey): Observable<Buffer>;
+}
@@ -0,0 +1,196 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { defer, finalize, map, Observable, of, shareReplay, tap } from 'rxjs';
+import { Codec } from '../codecs';
+import { FatalError } from '../providers/base';
+import { KeyProvider, WrappedKey } from './base';
+
+const ALGORITHM = 'aes-256-gcm';
+const MAX_CACHED_KEYS = 1000;
+
+/** An encrypted payload, with the wrapped data key that decrypts it */
+export type Envelope = WrappedKey & {
+  iv: string; // Base64
+  tag: string; // Base64
+  data: string; // Base64
+};
+
+/** An encoded item: scheduling fields stay readable by providers */
+type Sealed = {
+  __expires?: number;
+  __emits?: number;
+  __encrypted: Envelope;
+};
+
+/** The data authenticated with a payload */
+const aad = (keyId: string, key?: string): Buffer =>
+  Buffer.from(JSON.stringify([keyId, key ?? null]));
+
+/** The cache key of a wrapped data key */
+const id = ({ keyId, key }: WrappedKey): string => `${keyId}:${key}`;
+
+export type EnvelopeOptions = {
+  allowPlaintext?: boolean; // Decode items stored without encryption, Default: false
+  dataKeyUses?: number; // Items encrypted under a data key before a new one is made, Default: 1000
+};
+
+/**
+ * Thrown when decoding a payload whose data key hasn't been unwrapped yet.
+ * Resolve the key with {@link EnvelopeCodec.resolve}, then decode again.
+ */
+export class KeyUnavailableError extends Error {
+  constructor(public readonly wrapped: WrappedKey) {
+    super(`Data key wrapped under key ${wrapped.keyId} is not unwrapped yet`);
+    this.name = 'KeyUnavailableError';
+  }
+}
+
+/**
+ * Encrypts encoded items with AES-256-GCM, under data keys wrapped by a
+ * {@link KeyProvider}. The key ID and the key of the record are
+ * authenticated along with the payload, so a payload copied to another
+ * record fails to decrypt.
+ *
+ * Key providers are asynchronous while codecs aren't, so data keys are
+ * resolved ahead of time: {@link prepare} makes a data key to encode with,
+ * and {@link resolve} unwraps the key of a payload that failed to decode
+ * with a {@link KeyUnavailableError}. Resolved keys are cached, and a data
+ * key is reused for `dataKeyUses` items, so the key provider is called once
+ * per data key rather than once per item.
+ *
+ * Items stored without encryption are rejected, since anyone able to write
+ * to the table could store them. To turn encryption on for an existing
+ * table, pass `allowPlaintext` while the items are being migrated.
+ */
+export class EnvelopeCodec implements Codec {
+  constructor(
+    private readonly codec: Codec,
+    private readonly keys: KeyProvider,
+    private readonly options: EnvelopeOptions = {}
+  ) {}
+
+  private current?: { dataKey: Buffer; wrapped: WrappedKey; uses: number };
+  private preparing?: Observable<void> | undefined;
+  private unwrapped = new Map<string, Buffer>();
+
+  /** Make sure a data key is ready to encode the next item with */
+  prepare(): Observable<void> {
+    return defer(() => {
+      const uses = this.options.dataKeyUses ?? 1000;
+      if (this.current && this.current.uses < uses) {
+        return of(undefined);
+      }
+
+      if (!this.preparing) {
+        const dataKey = randomBytes(32);
+        this.preparing = this.keys.wrap(dataKey).pipe(
+          map((wrapped) => {
+            this.current = { dataKey, wrapped, uses: 0 };
+            this.cache(wrapped, dataKey);
+          }),
+          finalize(() => (this.preparing = undefined)),
+          shareReplay(1)
+        );
+      }
+      return this.preparing;
+    });
+  }
+
+  /** Unwrap a data key, so payloads encrypted under it can be decoded */
+  resolve(wrapped: WrappedKey): Observable<void> {
+    return defer(() =>
+      this.unwrapped.has(id(wrapped))
+        ? of(undefined)
+        : this.keys.unwrap(wrapped).pipe(
+            tap((dataKey) => this.cache(wrapped, dataKey)),
+            map(() => undefined)
+          )
+    );
+  }
+
+  private cache(wrapped: WrappedKey, dataKey: Buffer): void {
+    this.unwrapped.delete(id(wrapped));
+    this.unwrapped.set(id(wrapped), dataKey);
+    if (this.unwrapped.size > MAX_CACHED_KEYS) {
+      const [oldest] = this.unwrapped.keys();
+      this.unwrapped.delete(oldest as string);
+    }
+  }
+
+  encode(value: unknown, key?: string): unknown {
+    const { __expires, __emits, ...payload } = value as Omit<
+      Sealed,
+      '__encrypted'
+    >;
+
+    if (!this.current) {
+      throw new FatalError('No data key is prepared to encrypt with');
+    }
+    const { dataKey, wrapped } = this.current;
+    this.current.uses++;
+    const iv = randomBytes(12);
+
+    const cipher = createCipheriv(ALGORITHM, dataKey, iv);
+    cipher.setAAD(aad(wrapped.keyId, key));
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(this.codec.encode(payload))),
+      cipher.final(),
+    ]);
+
+    const sealed: Sealed = {
+      __encrypted: {
+        ...wrapped,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      },
+    };
+    if (__expires !== undefined) {
+      sealed.__expires = __expires;
+    }
+    if (__emits !== undefined) {
+      sealed.__emits = __emits;
+    }
+    return sealed;
+  }
+
+  decode(value: unknown, key?: string): unknown {
+    if (!value || typeof value !== 'object' || !('__encrypted' in value)) {
+      if (!this.options.allowPlaintext) {
+        throw new FatalError('Unable to decode an unencrypted payload');
+      }
+      return this.codec.decode(value);
+    }
+
+    const { __encrypted: envelope, ...fields } = value as Sealed;
+    const { iv, tag, data, ...wrapped } = envelope;
+    const dataKey = this.unwrapped.get(id(wrapped));
+    if (!dataKey) {
+      throw new KeyUnavailableError(wrapped);
+    }
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      dataKey,
+      Buffer.from(iv, 'base64')
+    );
+    decipher.setAAD(aad(envelope.keyId, key));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    let json: string;
+    try {
+      json = Buffer.concat([
+        decipher.update(Buffer.from(data, 'base64')),
+        decipher.final(),
+      ]).toString();
+    } catch {
+      throw new FatalError(
+        `Unable to decrypt payload with key ${envelope.keyId}`
+      );
+    }
+
+    return {
+      ...(this.codec.decode(JSON.parse(json)) as object),
+      ...fields,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+/* global describe, it, expect, beforeAll */
+import { randomBytes } from 'crypto';
+import { firstValueFrom, lastValueFrom, Observable } from 'rxjs';
+import { JsonCodec } from '../codecs';
+import { FatalError } from '../providers/base';
+import { WrappedKey } from './base';
+import { EnvelopeCodec, KeyUnavailableError } from './envelope';
+import { LocalKeyring } from './keyring';
+
+describe('LocalKeyring', () => {
+  const keys = { old: randomBytes(32), new: randomBytes(32) };
+
+  it('unwraps data keys wrapped under older keys', async () => {
+    const dataKey = randomBytes(32);
+    const wrapped = await firstValueFrom(
+      new LocalKeyring({ keys, current: 'old' }).wrap(dataKey)
+    );
+
+    const rotated = new LocalKeyring({ keys, current: 'new' });
+    expect((await firstValueFrom(rotated.wrap(dataKey))).keyId).toBe('new');
+    expect(await firstValueFrom(rotated.unwrap(wrapped))).toEqual(dataKey);
+  });
+
+  it('rejects invalid and unknown keys', async () => {
+    expect(
+      () =>
+        new LocalKeyring({ keys: { short: randomBytes(16) }, current: 'short' })
+    ).toThrow('Key short must be 32 bytes');
+    expect(() => new LocalKeyring({ keys, current: 'missing' })).toThrow(
+      FatalError
+    );
+
+    const wrapped = await firstValueFrom(
+      new LocalKeyring({ keys, current: 'old' }).wrap(randomBytes(32))
+    );
+    await expect(
+      firstValueFrom(
+        new LocalKeyring({ keys: { new: keys.new }, current: 'new' }).unwrap(
+          wrapped
+        )
+      )
+    ).rejects.toThrow('Unknown key: old');
+  });
+});
+
+describe('EnvelopeCodec', () => {
+  const keyring = new LocalKeyring({
+    keys: { 'key-1': randomBytes(32) },
+    current: 'key-1',
+  });
+  const codec = new EnvelopeCodec(new JsonCodec(), keyring);
+
+  beforeAll(() => lastValueFrom(codec.prepare(), { defaultValue: undefined }));
+
+  it('encrypts payloads, keeping scheduling fields readable', () => {
+    const encoded = codec.encode({ message: 'secret', __expires: 10 });
+
+    expect(JSON.stringify(encoded)).not.toContain('secret');
+    expect(encoded).toMatchObject({
+      __expires: 10,
+      __encrypted: { keyId: 'key-1' },
+    });
+    expect(codec.decode(encoded)).toEqual({ message: 'secret', __expires: 10 });
+  });
+
+  it('reuses a data key for a number of records', async () => {
+    const rotating = new EnvelopeCodec(new JsonCodec(), keyring, {
+      dataKeyUses: 2,
+    });
+    expect(() => rotating.encode({ message: 'early' })).toThrow(
+      'No data key is prepared to encrypt with'
+    );
+
+    const sealed: { __encrypted: WrappedKey & { iv: string } }[] = [];
+    for (let i = 0; i < 3; i++) {
+      await lastValueFrom(rotating.prepare(), { defaultValue: undefined });
+      sealed.push(
+        rotating.encode({ message: 'same' }) as (typeof sealed)[number]
+      );
+    }
+
+    const [a, b, c] = sealed.map(({ __encrypted }) => __encrypted);
+    expect(b?.key).toBe(a?.key);
+    expect(b?.iv).not.toBe(a?.iv);
+    expect(c?.key).not.toBe(a?.key);
+  });
+
+  it('decodes once the data key has been resolved', async () => {
+    let unwrapped = 0;
+    const counting = new EnvelopeCodec(new JsonCodec(), {
+      wrap: (dataKey): Observable<WrappedKey> => keyring.wrap(dataKey),
+      unwrap: (wrapped): Observable<Buffer> => {
+        unwrapped++;
+        return keyring.unwrap(wrapped);
+      },
+    });
+    const encoded = codec.encode({ message: 'secret' });
+
+    let error: unknown;
+    try {
+      counting.decode(encoded);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(KeyUnavailableError);
+
+    const { wrapped } = error as KeyUnavailableError;
+    await lastValueFrom(counting.resolve(wrapped), { defaultValue: undefined });
+    await lastValueFrom(counting.resolve(wrapped), { defaultValue: undefined });
+    expect(counting.decode(encoded)).toEqual({ message: 'secret' });
+    expect(unwrapped).toBe(1);
+  });
+
+  it('rejects unencrypted records unless plaintext is allowed', () => {
+    expect(() => codec.decode({ message: 'plain' })).toThrow(
+      'Unable to decode an unencrypted payload'
+    );
+
+    const migrating = new EnvelopeCodec(new JsonCodec(), keyring, {
+      allowPlaintext: true,
+    });
+    expect(migrating.decode({ message: 'plain' })).toEqual({
+      message: 'plain',
+    });
+  });
+
+  it('rejects tampered payloads', () => {
+    const encoded = codec.encode({ message: 'secret' }) as {
+      __encrypted: { data: string };
+    };
+    const data = Buffer.from(encoded.__encrypted.data, 'base64');
+    data[0] = (data[0] ?? 0) ^ 1;
+    encoded.__encrypted.data = data.toString('base64');
+
+    expect(() => codec.decode(encoded)).toThrow(
+      'Unable to decrypt payload with key key-1'
+    );
+  });
+
+  it('rejects payloads moved to another record', () => {
+    const encoded = codec.encode({ message: 'secret' }, 'a');
+
+    expect(codec.decode(encoded, 'a')).toEqual({ message: 'secret' });
+    expect(() => codec.decode(encoded, 'b')).toThrow(
+      'Unable to decrypt payload with key key-1'
+    );
+  });
+});
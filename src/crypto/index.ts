@@ -0,0 +1,8 @@
+export * from './base';
+export {
+  Envelope,
+  EnvelopeCodec,
+  EnvelopeOptions,
+  KeyUnavailableError,
+} from './envelope';
+export { LocalKeyring, LocalKeyringOptions } from './keyring';
@@ -0,0 +1,88 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { defer, Observable, of } from 'rxjs';
+import { FatalError } from '../providers/base';
+import { KeyProvider, WrappedKey } from './base';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export type LocalKeyringOptions = {
+  keys: Record<string, Buffer | string>; // 32-byte master keys (or base64), by key ID
+  current: string; // Key ID that new data keys are wrapped under
+};
+
+/**
+ * Master keys held in process, e.g. loaded from a secrets manager at
+ * startup. Data keys are wrapped with AES-256-GCM.
+ *
+ * To rotate, add a new key and make it `current`; keep older keys for as
+ * long as records wrapped under them are stored.
+ */
+export class LocalKeyring implements KeyProvider {
+  private keys: Map<string, Buffer>;
+  private current: string;
+
+  constructor(opts: LocalKeyringOptions) {
+    this.keys = new Map(
+      Object.entries(opts.keys).map(([keyId, key]) => {
+        const buffer = Buffer.isBuffer(key) ? key : Buffer.from(key, 'base64');
+        if (buffer.length !== 32) {
+          throw new FatalError(`Key ${keyId} must be 32 bytes`);
+        }
+        return [keyId, buffer];
+      })
+    );
+
+    if (!this.keys.has(opts.current)) {
+      throw new FatalError(`Unknown current key: ${opts.current}`);
+    }
+    this.current = opts.current;
+  }
+
+  wrap(dataKey: Buffer): Observable<WrappedKey> {
+    return defer(() => of(this.wrapSync(dataKey)));
+  }
+
+  unwrap(wrapped: WrappedKey): Observable<Buffer> {
+    return defer(() => of(this.unwrapSync(wrapped)));
+  }
+
+  private wrapSync(dataKey: Buffer): WrappedKey {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key(this.current), iv);
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: this.current,
+      key: Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64'),
+    };
+  }
+
+  private unwrapSync({ keyId, key }: WrappedKey): Buffer {
+    const buffer = Buffer.from(key, 'base64');
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      this.key(keyId),
+      buffer.subarray(0, IV_LENGTH)
+    );
+    decipher.setAuthTag(buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    try {
+      return Buffer.concat([
+        decipher.update(buffer.subarray(IV_LENGTH + TAG_LENGTH)),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new FatalError(`Unable to unwrap data key with key ${keyId}`);
+    }
+  }
+
+  private key(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new FatalError(`Unknown key: ${keyId}`);
+    }
+    return key;
+  }
+}
@@ -1,5 +1,5 @@
 // Operators - Core RxJS-style operators
-export { persist, persistReplay, semaphore } from './operators';
+export { persist, persistReplay, PersistOptions, semaphore } from './operators';
 
 // Providers - Cloud provider implementations
 export {
@@ -12,15 +12,63 @@ export {
   RetryError,
   FatalError,
   StreamEvent,
+  Filter,
+  Condition,
+  Operators,
+  Snapshot,
+  SnapshotOptions,
   // Specific implementations
   DynamoDB,
   DynamoDBOptions,
+  ItemTooLargeError,
   Memory,
   MemoryProviderOptions,
+  File,
+  FileProviderOptions,
+  SQLite,
+  SQLiteOptions,
+  Redis,
+  RedisOptions,
+  RedisClient,
+  RedisScripts,
+  RedisStreamEntry,
 } from './providers';
 
+// Checkpoints - Durable stream positions for resumable consumers
+export {
+  CheckpointStore,
+  Checkpoints,
+  MemoryCheckpointStore,
+  FileCheckpointStore,
+  DynamoDBCheckpointStore,
+  DynamoDBCheckpointStoreOptions,
+} from './checkpoints';
+
+// Codecs - Value encodings for persisted payloads
+export { Codec, JsonCodec, RichJsonCodec } from './codecs';
+
+// Crypto - Envelope encryption for persisted payloads
+export {
+  KeyProvider,
+  WrappedKey,
+  Envelope,
+  EnvelopeCodec,
+  EnvelopeOptions,
+  KeyUnavailableError,
+  LocalKeyring,
+  LocalKeyringOptions,
+} from './crypto';
+
 // Subjects - Observable-like classes
-export { BehaviorSubject, CloudReplaySubject, Subject } from './subjects';
+export {
+  BehaviorSubject,
+  CloudAsyncSubject,
+  CloudAsyncOptions,
+  CloudBehaviorSubject,
+  CloudBehaviorOptions,
+  CloudReplaySubject,
+  Subject,
+} from './subjects';
 
 // Utilities - Helper types and functions
 export { Logger, InfoLogger } from './util';
@@ -28,14 +76,24 @@ export { Logger, InfoLogger } from './util';
 // Controllers - Event-emitting controllers for cloud services
 export {
   Controller,
+  ControllerDiff,
+  ControllerError,
+  ControllerErrorEvent,
   ControllerEvent,
   ControllerKey,
   ControllerOptions,
   EventType,
   EventListener,
+  UpdateChanges,
+  WatchOptions,
+  ConcurrencyConflictError,
   DynamoDBController,
   DynamoDBControllerOptions,
   DynamoDBEvent,
+  DynamoDBQueryOptions,
+  DynamoDBRetryOptions,
+  DynamoDBScanOptions,
+  DynamoDBStartPosition,
 } from './controllers';
 
 // Observables - RxJS observable helpers
@@ -1,5 +1,10 @@
 import { Observable, fromEvent as _fromEvent } from 'rxjs';
-import { Controller, ControllerEvent, EventType } from '../controllers';
+import {
+  Controller,
+  ControllerErrorEvent,
+  ControllerEvent,
+  EventType,
+} from '../controllers';
 
 /**
  * Strictly typed fromEvent for Controllers.
@@ -11,11 +16,16 @@ import { Controller, ControllerEvent, EventType } from '../controllers';
  * ```typescript
  * const controller = DynamoDBController.from<MyType>(table);
  *
- * // Listen for modifications (INSERT/MODIFY)
- * fromEvent(controller, 'modified').subscribe(event => {
+ * // Listen for new items (INSERT)
+ * fromEvent(controller, 'inserted').subscribe(event => {
  *   console.log('Key:', event.key, 'Value:', event.value);
  * });
  *
+ * // Listen for modifications (MODIFY), with the previous value and a diff
+ * fromEvent(controller, 'modified').subscribe(event => {
+ *   console.log('Key:', event.key, 'Was:', event.oldValue, event.diff);
+ * });
+ *
  * // Listen for removals (manual deletes)
  * fromEvent(controller, 'removed').subscribe(event => {
  *   console.log('Removed:', event.key, event.value);
@@ -26,18 +36,27 @@ import { Controller, ControllerEvent, EventType } from '../controllers';
  *   console.log('Expired:', event.key, event.value);
  * });
  *
+ * // Listen for stream errors (these don't start streaming on their own)
+ * fromEvent(controller, 'error').subscribe(event => {
+ *   console.error(event.error.operation, event.error.shardId, event.error);
+ * });
+ *
  * // Write and delete items (returns Observable<void>)
  * controller.put({ id: '123', name: 'Alice' }).subscribe();
  * controller.remove({ id: '123' }).subscribe();
  * ```
  *
  * @param target The Controller to listen to
- * @param eventName The event type: 'modified', 'removed', or 'expired'
- * @returns Observable of events of type T
+ * @param eventName The event type: 'inserted', 'modified', 'removed',
+ *   'expired' or 'error'
+ * @returns Observable of events of type T, or of error events
  */
-export function fromEvent<T extends ControllerEvent>(
+export function fromEvent<T extends ControllerEvent, K extends EventType>(
   target: Controller<T>,
-  eventName: EventType
-): Observable<T> {
-  return _fromEvent<T>(target, eventName);
+  eventName: K
+): Observable<K extends 'error' ? ControllerErrorEvent : T> {
+  // Error events reach the listener through the same addEventListener call
+  return _fromEvent<T>(target, eventName) as Observable<
+    K extends 'error' ? ControllerErrorEvent : T
+  >;
 }
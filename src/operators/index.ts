@@ -1,2 +1,2 @@
-export { persist, persistReplay } from './persist';
+export { persist, persistReplay, PersistOptions } from './persist';
 export { semaphore } from './semaphore';
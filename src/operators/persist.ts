@@ -1,7 +1,11 @@
 import {
+  bufferTime,
   delay,
+  filter,
   first,
+  from,
   map,
+  mergeMap,
   MonoTypeOperatorFunction,
   Observable,
   of,
@@ -10,10 +14,21 @@ import {
 } from 'rxjs';
 import { Expireable, ICloudProvider } from '../providers';
 
+export type PersistOptions = {
+  // Store values in batches (see `ICloudProvider.storeMany`), of up to
+  // `count` values (default 25) collected over `window` ms (default 100)
+  batch?: { count?: number; window?: number };
+};
+
 export const persist = <T>(
   provider?: Observable<ICloudProvider<unknown>>,
-  hashFn?: (value: T) => string
+  hashFn?: (value: T) => string,
+  options?: PersistOptions
 ): MonoTypeOperatorFunction<T> => {
+  if (options?.batch) {
+    return persistBatches(provider, hashFn, options.batch);
+  }
+
   return (source: Observable<T>): Observable<T> => {
     return new Observable<T>((subscriber) => {
       const state = {
@@ -144,6 +159,34 @@ export const persist = <T>(
   };
 };
 
+/**
+ * Persist values in batches. Each value is still emitted once its own
+ * stream event arrives.
+ */
+const persistBatches = <T>(
+  provider: Observable<ICloudProvider<unknown>> | undefined,
+  hashFn: ((value: T) => string) | undefined,
+  { count = 25, window = 100 }: NonNullable<PersistOptions['batch']>
+): MonoTypeOperatorFunction<T> => {
+  return (source: Observable<T>): Observable<T> =>
+    source.pipe(
+      bufferTime(window, null, count),
+      filter((values) => values.length > 0),
+      mergeMap((values) =>
+        provider
+          ? provider.pipe(
+              first(),
+              switchMap((p) =>
+                p.storeMany(
+                  values.map((value) => ({ ...value, hashFn }) as Expireable<T>)
+                )
+              )
+            )
+          : from(values).pipe(delay(1000))
+      )
+    );
+};
+
 export const persistReplay = <T>(
   provider?: Observable<ICloudProvider<unknown>>
 ): MonoTypeOperatorFunction<T> => {
@@ -0,0 +1,118 @@
+/* global describe, it, expect, jest */
+import { _Record, AttributeValue } from '@aws-sdk/client-dynamodb-streams';
+import { Assembler, CHUNK_SIZE, join, partKey, split } from './chunks';
+
+const logger = {};
+
+const record = (
+  eventName: 'INSERT' | 'REMOVE',
+  key: string,
+  part: number,
+  chunks: number,
+  chunk: string,
+  version = 'v1'
+): _Record => {
+  const image: Record<string, AttributeValue> = {
+    rangeKey: { S: partKey(key, part) },
+    __chunks: { N: `${chunks}` },
+    __part: { N: `${part}` },
+    __version: { S: version },
+    __chunk: { B: Buffer.from(chunk) },
+  };
+  return {
+    eventName,
+    dynamodb: {
+      Keys: { rangeKey: { S: partKey(key, part) } },
+      [eventName === 'REMOVE' ? 'OldImage' : 'NewImage']: image,
+    },
+  };
+};
+
+const chunks = (assembled: _Record | undefined): string =>
+  (
+    assembled?.dynamodb?.NewImage || assembled?.dynamodb?.OldImage
+  )?.__chunk?.L?.map(({ B }) => Buffer.from(B ?? []).toString()).join('') ?? '';
+
+describe('chunks', () => {
+  it('splits and joins payloads', () => {
+    const payload = Buffer.from(
+      JSON.stringify({ text: 'x'.repeat(CHUNK_SIZE * 2) })
+    );
+    const parts = split(payload);
+    expect(parts).toHaveLength(3);
+    expect(join(parts)).toEqual({ text: 'x'.repeat(CHUNK_SIZE * 2) });
+  });
+
+  it('releases an item once every part has arrived', () => {
+    const assembler = new Assembler('rangeKey', logger, 'test');
+
+    expect(assembler.add([record('INSERT', 'a', 2, 3, 'o"')])).toEqual([]);
+    expect(assembler.add([record('INSERT', 'a', 0, 3, '"ec')])).toEqual([]);
+    expect(assembler.pending).toBe(true);
+
+    const [assembled] = assembler.add([record('INSERT', 'a', 1, 3, 'h')]);
+    expect(assembled?.dynamodb?.Keys?.rangeKey?.S).toBe('a');
+    expect(chunks(assembled)).toBe('"echo"');
+    expect(assembler.pending).toBe(false);
+  });
+
+  it('keeps writes, removals and versions apart', () => {
+    const assembler = new Assembler('rangeKey', logger, 'test');
+
+    expect(
+      assembler.add([
+        record('INSERT', 'a', 0, 2, '1', 'v1'),
+        record('REMOVE', 'a', 1, 2, '2', 'v1'),
+        record('INSERT', 'a', 1, 2, '3', 'v2'),
+      ])
+    ).toEqual([]);
+
+    const [removed] = assembler.add([record('REMOVE', 'a', 0, 2, '1', 'v1')]);
+    expect(removed?.eventName).toBe('REMOVE');
+    expect(chunks(removed)).toBe('12');
+  });
+
+  it('does not await the removed parts of a superseded version', () => {
+    const assembler = new Assembler('rangeKey', logger, 'test');
+
+    // Storing 'a' again in two parts removes the third part of v1
+    expect(
+      assembler.add([
+        record('INSERT', 'a', 1, 2, 'b', 'v2'),
+        record('INSERT', 'a', 0, 2, 'a', 'v2'),
+        record('REMOVE', 'a', 2, 3, 'c', 'v1'),
+      ])
+    ).toHaveLength(1);
+    expect(assembler.pending).toBe(false);
+
+    // Removing an item is awaited once its first part is removed
+    assembler.add([record('REMOVE', 'a', 0, 2, 'a', 'v2')]);
+    expect(assembler.pending).toBe(true);
+    expect(
+      assembler.add([record('REMOVE', 'a', 1, 2, 'b', 'v2')])
+    ).toHaveLength(1);
+    expect(assembler.pending).toBe(false);
+  });
+
+  it('drops items whose parts do not arrive in time', () => {
+    const assembler = new Assembler('rangeKey', logger, 'test');
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    expect(assembler.add([record('INSERT', 'a', 0, 2, '"a')])).toEqual([]);
+    clock.mockReturnValue(now + 6 * 60 * 1000);
+    // The late part starts a new group rather than completing the old one
+    expect(assembler.add([record('INSERT', 'a', 1, 2, '"')])).toEqual([]);
+
+    clock.mockRestore();
+  });
+
+  it('passes unchunked records through', () => {
+    const assembler = new Assembler('rangeKey', logger, 'test');
+    const plain: _Record = {
+      eventName: 'INSERT',
+      dynamodb: { NewImage: { data: { M: {} } } },
+    };
+    expect(assembler.add([plain])).toEqual([plain]);
+  });
+});
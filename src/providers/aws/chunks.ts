@@ -0,0 +1,168 @@
+import { _Record, AttributeValue } from '@aws-sdk/client-dynamodb-streams';
+import { FatalError } from '../base';
+import { Logger } from '../../util';
+
+/**
+ * Largest part of a payload stored in one row, leaving room for the keys
+ * and other attributes within DynamoDB's 400KB item limit.
+ */
+export const CHUNK_SIZE = 350 * 1024;
+
+/** How long a stream waits for the rest of an item's chunks */
+const CHUNK_TIMEOUT = 5 * 60 * 1000;
+
+export class ItemTooLargeError extends FatalError {
+  constructor(
+    public readonly size: number,
+    public readonly limit: number
+  ) {
+    super(`Item of ${size} bytes exceeds the limit of ${limit} bytes`);
+    this.name = 'ItemTooLargeError';
+  }
+}
+
+/**
+ * Attributes of a row holding part of a chunked item. The first part is
+ * stored under the item's own range key, and the others under
+ * `{rangeKey}#{part}`. Each store of an item has a new `__version`, so parts
+ * of different stores are never mixed.
+ */
+export type Chunk = {
+  __chunks: number;
+  __part: number;
+  __version: string;
+  __chunk: Uint8Array;
+};
+
+/**
+ * The range key of a part of a chunked item.
+ */
+export const partKey = (key: string, part: number): string =>
+  part ? `${key}#${part}` : key;
+
+/**
+ * Split a payload into chunks of up to {@link CHUNK_SIZE} bytes of JSON.
+ */
+export const split = (payload: Buffer): Buffer[] => {
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < payload.length; i += CHUNK_SIZE) {
+    chunks.push(payload.subarray(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Reassemble a payload from its chunks, in part order.
+ */
+export const join = <T>(chunks: Uint8Array[]): T =>
+  JSON.parse(Buffer.concat(chunks).toString()) as T;
+
+type Group = {
+  since: number;
+  removal: boolean;
+  parts: Map<number, _Record>;
+};
+
+/**
+ * Collects stream records of chunked items, releasing each write or
+ * removal as one record of the first part, once every part has arrived.
+ * The released record's image holds all chunks, in part order, as a list
+ * in `__chunk`. Records of unchunked items pass straight through.
+ */
+export class Assembler {
+  private groups = new Map<string, Group>();
+
+  constructor(
+    private readonly rangeKey: string,
+    private readonly logger: Logger,
+    private readonly id: string
+  ) {}
+
+  /**
+   * Whether parts of an item are still awaited. A removal is only awaited
+   * once its first part has arrived, since removing it is what removes the
+   * item: storing an item again in fewer parts removes the superseded
+   * version's remaining parts, which never complete a group.
+   */
+  get pending(): boolean {
+    this.prune();
+    return [...this.groups.values()].some(
+      ({ removal, parts }) => !removal || parts.has(0)
+    );
+  }
+
+  /**
+   * Drop items whose remaining parts didn't arrive in time (e.g. rows left
+   * from an earlier, larger store).
+   */
+  private prune(): void {
+    const now = Date.now();
+    this.groups.forEach((group, id) => {
+      if (now - group.since > CHUNK_TIMEOUT) {
+        this.logger.warn?.(`[${this.id}] Dropping incomplete chunks: ${id}`);
+        this.groups.delete(id);
+      }
+    });
+  }
+
+  add(records: _Record[]): _Record[] {
+    this.prune();
+    return records.flatMap((record) => {
+      const removal = record.eventName === 'REMOVE';
+      const image = removal
+        ? record.dynamodb?.OldImage
+        : record.dynamodb?.NewImage;
+      const chunks = Number(image?.__chunks?.N ?? 0);
+      if (!image || !chunks) {
+        return [record];
+      }
+
+      const part = Number(image.__part?.N ?? 0);
+      const rangeKey = record.dynamodb?.Keys?.[this.rangeKey]?.S ?? '';
+      const key = part
+        ? rangeKey.slice(0, -partKey('', part).length)
+        : rangeKey;
+      const id = JSON.stringify([key, image.__version?.S, removal]);
+
+      const group = this.groups.get(id) || {
+        since: Date.now(),
+        removal,
+        parts: new Map<number, _Record>(),
+      };
+      group.parts.set(part, record);
+      if (group.parts.size < chunks) {
+        this.groups.set(id, group);
+        return [];
+      }
+      this.groups.delete(id);
+
+      const images = [...group.parts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, { dynamodb }]) =>
+          removal ? dynamodb?.OldImage : dynamodb?.NewImage
+        );
+      const head = group.parts.get(0);
+      if (!head?.dynamodb || !images[0]) {
+        return [];
+      }
+
+      const chunk: AttributeValue = {
+        L: images.map(
+          (image): AttributeValue => image?.__chunk ?? { NULL: true }
+        ),
+      };
+      return [
+        {
+          ...head,
+          dynamodb: {
+            ...head.dynamodb,
+            [removal ? 'OldImage' : 'NewImage']: {
+              ...images[0],
+              __chunk: chunk,
+            },
+          },
+        },
+      ];
+    });
+  }
+}
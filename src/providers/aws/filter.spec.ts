@@ -0,0 +1,90 @@
+/* global describe, it, expect */
+import { FatalError, Filter } from '../base';
+import { compile } from './filter';
+
+type Data = {
+  message: string;
+  count: number;
+  done?: boolean;
+  user: { name: string; region?: string };
+};
+
+describe('compile', () => {
+  it('compiles an empty filter to no expression', () => {
+    expect(compile<Data>({})).toEqual({ names: {}, values: {} });
+  });
+
+  it('compiles equality on the data attribute', () => {
+    expect(compile<Data>({ message: 'hello', done: true })).toEqual({
+      expression: '#f0.#f1 = :f0 AND #f0.#f2 = :f1',
+      names: { '#f0': 'data', '#f1': 'message', '#f2': 'done' },
+      values: { ':f0': 'hello', ':f1': true },
+    });
+  });
+
+  it('compiles nested paths', () => {
+    expect(compile<Data>({ 'user.region': 'eu' })).toEqual({
+      expression: '#f0.#f1.#f2 = :f0',
+      names: { '#f0': 'data', '#f1': 'user', '#f2': 'region' },
+      values: { ':f0': 'eu' },
+    });
+  });
+
+  it('compiles comparison operators', () => {
+    const { expression, values } = compile<Data>({
+      count: { $gt: 1, $lte: 10 },
+      message: { $beginsWith: 'he' },
+    });
+    expect(expression).toBe(
+      '#f0.#f1 > :f0 AND #f0.#f1 <= :f1 AND begins_with(#f0.#f2, :f2)'
+    );
+    expect(values).toEqual({ ':f0': 1, ':f1': 10, ':f2': 'he' });
+  });
+
+  it('compiles between and in', () => {
+    const { expression, values } = compile<Data>({
+      count: { $between: [1, 5] },
+      'user.name': { $in: ['a', 'b'] },
+    });
+    expect(expression).toBe(
+      '#f0.#f1 BETWEEN :f0 AND :f1 AND #f0.#f2.#f3 IN (:f2, :f3)'
+    );
+    expect(values).toEqual({ ':f0': 1, ':f1': 5, ':f2': 'a', ':f3': 'b' });
+  });
+
+  it('compiles existence and inequality', () => {
+    const { expression } = compile<Data>({
+      done: { $exists: false },
+      message: { $ne: 'hello' },
+    });
+    expect(expression).toBe(
+      'attribute_not_exists(#f0.#f1) AND (attribute_not_exists(#f0.#f2) OR #f0.#f2 <> :f0)'
+    );
+  });
+
+  it('compiles against another root attribute', () => {
+    expect(compile<Data>({ count: 1 }, 'payload').names).toEqual({
+      '#f0': 'payload',
+      '#f1': 'count',
+    });
+  });
+
+  it('compiles against the item itself with another prefix', () => {
+    expect(compile<Data>({ count: { $gt: 1 } }, '', 'k')).toEqual({
+      expression: '#k0 > :k0',
+      names: { '#k0': 'count' },
+      values: { ':k0': 1 },
+    });
+  });
+
+  it('rejects unsupported operators', () => {
+    const filter = { count: { $regex: '.*' } } as unknown as Filter<Data>;
+    expect(() => compile<Data>(filter)).toThrow(FatalError);
+  });
+
+  it('rejects an empty $in', () => {
+    expect(() => compile<Data>({ count: { $in: [] } })).toThrow(
+      '$in on count requires at least one value'
+    );
+  });
+});
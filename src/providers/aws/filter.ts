@@ -0,0 +1,80 @@
+import { clauses, Filter } from '../base';
+
+export type FilterExpression = {
+  expression?: string; // Undefined when the filter is empty
+  names: Record<string, string>;
+  values: Record<string, unknown>;
+};
+
+/**
+ * Compile a snapshot filter into a DynamoDB FilterExpression over the item's
+ * `data` attribute (or another root attribute, or the item itself when
+ * `root` is empty), with generated attribute name (`#f0`) and value (`:f0`)
+ * placeholders. Expressions used together need different `prefix`es.
+ */
+export const compile = <T>(
+  filter: Filter<T>,
+  root: string = 'data',
+  prefix: string = 'f'
+): FilterExpression => {
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+
+  const name = (key: string): string => {
+    const existing = Object.keys(names).find((n) => names[n] === key);
+    if (existing) {
+      return existing;
+    }
+    const placeholder = `#${prefix}${Object.keys(names).length}`;
+    names[placeholder] = key;
+    return placeholder;
+  };
+
+  const value = (v: unknown): string => {
+    const placeholder = `:${prefix}${Object.keys(values).length}`;
+    values[placeholder] = v;
+    return placeholder;
+  };
+
+  const expressions = clauses(filter).map(({ path, operator, value: v }) => {
+    const attribute = (root ? [root, ...path] : path).map(name).join('.');
+
+    switch (operator) {
+      case '$eq':
+        return v === undefined
+          ? `attribute_not_exists(${attribute})`
+          : `${attribute} = ${value(v)}`;
+      case '$ne':
+        // A missing attribute is not equal to anything, as in JS
+        return v === undefined
+          ? `attribute_exists(${attribute})`
+          : `(attribute_not_exists(${attribute}) OR ${attribute} <> ${value(v)})`;
+      case '$gt':
+        return `${attribute} > ${value(v)}`;
+      case '$gte':
+        return `${attribute} >= ${value(v)}`;
+      case '$lt':
+        return `${attribute} < ${value(v)}`;
+      case '$lte':
+        return `${attribute} <= ${value(v)}`;
+      case '$between': {
+        const [low, high] = v as [unknown, unknown];
+        return `${attribute} BETWEEN ${value(low)} AND ${value(high)}`;
+      }
+      case '$beginsWith':
+        return `begins_with(${attribute}, ${value(v)})`;
+      case '$in':
+        return `${attribute} IN (${(v as unknown[]).map(value).join(', ')})`;
+      case '$exists':
+        return v
+          ? `attribute_exists(${attribute})`
+          : `attribute_not_exists(${attribute})`;
+    }
+  });
+
+  const compiled: FilterExpression = { names, values };
+  if (expressions.length) {
+    compiled.expression = expressions.join(' AND ');
+  }
+  return compiled;
+};
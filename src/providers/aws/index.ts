@@ -1 +1,2 @@
 export { DynamoDB, DynamoDBOptions } from './provider';
+export { ItemTooLargeError } from './chunks';
@@ -16,11 +16,26 @@ import {
   RetryError,
   Expireable,
   Filter,
+  Snapshot,
+  SnapshotOptions,
+  decodeCursor,
+  encodeCursor,
 } from '../base';
+import { compile } from './filter';
+import {
+  Assembler,
+  Chunk,
+  CHUNK_SIZE,
+  ItemTooLargeError,
+  join,
+  partKey,
+  split,
+} from './chunks';
 import {
   asyncScheduler,
   catchError,
   combineLatest,
+  concat,
   concatMap,
   defer,
   distinct,
@@ -30,6 +45,8 @@ import {
   forkJoin,
   from,
   fromEvent,
+  ignoreElements,
+  last,
   map,
   Observable,
   observeOn,
@@ -43,25 +60,58 @@ import {
   tap,
   throwError,
   timer,
+  toArray,
 } from 'rxjs';
 import {
   _Record,
+  AttributeValue as StreamAttributeValue,
   DescribeStreamCommand,
   DynamoDBStreamsClient,
   GetRecordsCommand,
   GetShardIteratorCommand,
   Shard,
 } from '@aws-sdk/client-dynamodb-streams';
-import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import {
+  BatchWriteCommand,
+  DeleteCommand,
   DynamoDBDocument,
+  GetCommand,
   PutCommand,
   QueryCommand,
+  QueryCommandOutput,
   TranslateConfig,
+  UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { random } from 'timeflake';
+import { Checkpoint, Checkpoints } from '../../checkpoints';
+import { KeyUnavailableError } from '../../crypto';
 
 const INIT_SIGNATURE = '__init__';
+const BATCH_SIZE = 25; // BatchWriteItem limit
+const BATCH_RETRIES = 8;
+
+/** Records read from a shard, with the position to checkpoint after them */
+type Batch = {
+  records: _Record[];
+  shardId?: string;
+  position?: string;
+};
+
+/**
+ * Canonical JSON of a stream image, with sorted keys, so that images of the
+ * same item compare equal.
+ */
+const image = (attributes: Record<string, StreamAttributeValue>): string =>
+  JSON.stringify(
+    unmarshall(attributes as Parameters<typeof unmarshall>[0]),
+    (_key, value: unknown) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(
+            Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+          )
+        : value
+  );
 
 export type DynamoDBOptions<
   THashKey extends string = 'hashKey',
@@ -72,6 +122,8 @@ export type DynamoDBOptions<
   rangeKey?: TRangeKey;
   ttlAttribute?: string;
   pollInterval?: number;
+  maxItemSize?: number; // Largest item in bytes of JSON, stored in chunks of up to 350KB (default 4MB)
+  idempotent?: boolean; // Only store keys that aren't stored yet, resolving to the stored item otherwise
 };
 
 export type DynamoDBStreamedData<T> = Streamed<T, string>;
@@ -84,10 +136,7 @@ export type DynamoDBStoredData<T> = {
 export class DynamoDBImpl<
   THashKey extends string = 'hashKey',
   TRangeKey extends string = 'rangeKey',
-> extends CloudProvider<
-  _Record,
-  NonNullable<_Record['dynamodb']>['SequenceNumber']
-> {
+> extends CloudProvider<_Record, string> {
   private static DEFAULT_CLIENT = new DynamoDBClient({});
   private static shards: Record<string, Observable<Shard>> = {};
 
@@ -97,6 +146,8 @@ export class DynamoDBImpl<
   private _rangeKey: TRangeKey;
   private _ttlAttribute: string;
   private _pollInterval: number;
+  private _maxItemSize: number;
+  private _idempotent: boolean;
   private _tableArn?: string;
   private _streamArn?: string;
 
@@ -118,6 +169,8 @@ export class DynamoDBImpl<
     this._rangeKey = opts?.rangeKey || ('rangeKey' as TRangeKey);
     this._ttlAttribute = opts?.ttlAttribute || 'expires';
     this._pollInterval = opts?.pollInterval || 5000;
+    this._maxItemSize = opts?.maxItemSize || 4 * 1024 * 1024;
+    this._idempotent = opts?.idempotent || false;
   }
 
   get client(): DynamoDBDocument {
@@ -152,6 +205,14 @@ export class DynamoDBImpl<
     return this._pollInterval;
   }
 
+  get maxItemSize(): number {
+    return this._maxItemSize;
+  }
+
+  get idempotent(): boolean {
+    return this._idempotent;
+  }
+
   get streamClient(): DynamoDBStreamsClient {
     if (!this._streamClient) {
       throw new FatalError('Stream client is not yet available');
@@ -209,8 +270,9 @@ export class DynamoDBImpl<
       ),
       filter(({ newShard }) => newShard !== null),
       map(({ newShard }) => newShard!),
-      // Use refCount to auto-unsubscribe when no subscribers, preventing memory leak
-      shareReplay({ bufferSize: 1, refCount: true })
+      // Replay every shard seen to later subscribers, which read them all;
+      // refCount unsubscribes when there are no subscribers left
+      shareReplay({ refCount: true })
     );
 
     // Clean up the shards cache entry when the provider is aborted
@@ -506,9 +568,331 @@ export class DynamoDBImpl<
     );
   }
 
-  protected _stream(all: boolean): Observable<_Record[]> {
-    return new Observable<_Record[]>((subscriber) => {
-      const shardIteratorType = all ? 'TRIM_HORIZON' : 'LATEST';
+  /**
+   * Stream records from the table's DynamoDB Stream.
+   *
+   * DynamoDB Streams only hold the last 24 hours, so `stream(true)` replays
+   * the items in the table instead and then hands off to the live stream
+   * (see {@link replay}). A consumer with a checkpoint resumes from the
+   * stream after its recorded positions.
+   */
+  protected _stream(
+    all: boolean,
+    checkpoint?: Checkpoint
+  ): Observable<_Record[]> {
+    const positions$: Observable<Checkpoints> = checkpoint
+      ? checkpoint.positions()
+      : of({});
+
+    return defer(() => {
+      const assembler = new Assembler(this.rangeKey, this.logger, this.id);
+
+      return positions$.pipe(
+        switchMap((positions) =>
+          all && !Object.keys(positions).length
+            ? this.replay()
+            : this.shardRecords(all ? 'TRIM_HORIZON' : 'LATEST', positions)
+        ),
+        map(({ records, shardId, position }) => {
+          const assembled = assembler.add(
+            records.filter((record) => {
+              if (this.isInit(record)) {
+                this.logger.debug?.(`[${this.id}] Skipping init record`);
+                return false;
+              }
+              return true;
+            })
+          );
+
+          // Stage the position to be committed once the batch has been
+          // delivered, unless that would skip chunks of an item that is
+          // still incomplete
+          if (checkpoint && shardId && position && !assembler.pending) {
+            checkpoint.stage(shardId, position);
+          }
+          return assembled;
+        })
+      );
+    });
+  }
+
+  private isInit(record: _Record): boolean {
+    return (
+      record.dynamodb?.Keys?.[this.hashKey]?.S === this.id &&
+      record.dynamodb?.Keys?.[this.rangeKey]?.S === INIT_SIGNATURE
+    );
+  }
+
+  /**
+   * Replay the items in the table in range key order, then continue with
+   * the live stream without gaps or duplicates. Range keys are timeflakes
+   * unless a `hashFn` gives them, so items replay oldest first unless they
+   * were stored under keys of their own.
+   *
+   * The live stream is read from LATEST, and the table is queried once
+   * every open shard has its LATEST iterator, so that no write from then on
+   * can be missed. The stream is buffered until the query completes. A
+   * write landing in between is both in the table and in the stream, so for
+   * each replayed item, stream records are skipped up to the one whose new
+   * image is the replayed item (by range key); a record whose old image is
+   * the replayed item is newer, and delivered. Once the query completes, a
+   * handoff token is set on the init record: the live stream has caught up
+   * when it delivers that write, which also gives the stream a position to
+   * checkpoint.
+   */
+  private replay(): Observable<Batch> {
+    return new Observable<Batch>((subscriber) => {
+      this.logger.debug?.(`[${this.id}] Replaying table before live stream`);
+
+      // Replayed items by range key, until their stream records are seen
+      const replayed = new Map<string, string>();
+      const buffered: Batch[] = [];
+      let state: 'starting' | 'replaying' | 'handoff' | 'live' = 'starting';
+      let token: string | undefined;
+
+      const deduplicate = (record: _Record): boolean => {
+        const key = record.dynamodb?.Keys?.[this.rangeKey]?.S;
+        const item = key !== undefined ? replayed.get(key) : undefined;
+        if (key === undefined || item === undefined) {
+          return true;
+        }
+
+        const { NewImage, OldImage } = record.dynamodb || {};
+        if (NewImage && image(NewImage) === item) {
+          replayed.delete(key);
+          return false;
+        }
+        if (OldImage && image(OldImage) === item) {
+          replayed.delete(key);
+          return true;
+        }
+        // A write the replayed item already reflects
+        return false;
+      };
+
+      const deliver = (batch: Batch): void => {
+        if (state === 'live') {
+          subscriber.next(batch);
+          return;
+        }
+
+        subscriber.next({
+          ...batch,
+          records: batch.records.filter(deduplicate),
+        });
+
+        if (
+          batch.records.some(
+            (record) =>
+              this.isInit(record) &&
+              record.dynamodb?.NewImage?.handoff?.S === token
+          )
+        ) {
+          this.logger.debug?.(`[${this.id}] Replay handed off to live stream`);
+          replayed.clear();
+          state = 'live';
+        }
+      };
+
+      const history = concat(
+        this.history().pipe(
+          tap((records) => {
+            records.forEach((record) => {
+              const key = record.dynamodb?.Keys?.[this.rangeKey]?.S;
+              if (key !== undefined && record.dynamodb?.NewImage) {
+                replayed.set(key, image(record.dynamodb.NewImage));
+              }
+            });
+            subscriber.next({ records });
+          }),
+          ignoreElements()
+        ),
+        this.touch().pipe(tap((handoff) => (token = handoff)))
+      );
+
+      const subscriptions = new Subscription();
+
+      // The open shards, and those that have their LATEST iterator
+      let open: Set<string> | undefined;
+      const iterated = new Set<string>();
+      const start = (): void => {
+        if (
+          state !== 'starting' ||
+          !open ||
+          [...open].some((shardId) => !iterated.has(shardId))
+        ) {
+          return;
+        }
+
+        // The live stream is in place, so nothing written from here on can
+        // be missed
+        state = 'replaying';
+        subscriptions.add(
+          history.subscribe({
+            error: (error) => subscriber.error(error),
+            complete: () => {
+              state = 'handoff';
+              buffered.splice(0).forEach(deliver);
+            },
+          })
+        );
+      };
+
+      subscriptions.add(
+        this.openShards().subscribe({
+          next: (shardIds) => {
+            open = shardIds;
+            start();
+          },
+          error: (error) => subscriber.error(error),
+        })
+      );
+
+      subscriptions.add(
+        this.shardRecords('LATEST', {}, (shardId) => {
+          iterated.add(shardId);
+          start();
+        }).subscribe({
+          next: (batch) => {
+            if (state === 'starting' || state === 'replaying') {
+              buffered.push(batch);
+            } else {
+              deliver(batch);
+            }
+          },
+          error: (error) => subscriber.error(error),
+          complete: () => subscriber.complete(),
+        })
+      );
+
+      return () => {
+        subscriptions.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * The IDs of the stream's open shards.
+   */
+  private openShards(): Observable<Set<string>> {
+    return from(
+      this.streamClient.send(
+        new DescribeStreamCommand({ StreamArn: this.streamArn })
+      )
+    ).pipe(
+      map(
+        ({ StreamDescription }) =>
+          new Set(
+            (StreamDescription?.Shards ?? [])
+              .filter(
+                ({ SequenceNumberRange }) =>
+                  !SequenceNumberRange?.EndingSequenceNumber
+              )
+              .flatMap(({ ShardId }) => (ShardId ? [ShardId] : []))
+          )
+      )
+    );
+  }
+
+  /**
+   * Query every item in the table, in range key order, as INSERT records.
+   */
+  private history(): Observable<_Record[]> {
+    const query = (
+      ExclusiveStartKey?: Record<string, unknown>
+    ): Observable<QueryCommandOutput> =>
+      from(
+        this.client.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: `${this.hashKey} = :hashKey`,
+            ExpressionAttributeValues: { ':hashKey': this.id },
+            ScanIndexForward: true,
+            ConsistentRead: true,
+            ExclusiveStartKey,
+          })
+        )
+      );
+
+    return query().pipe(
+      expand(({ LastEvaluatedKey }) =>
+        LastEvaluatedKey ? query(LastEvaluatedKey) : EMPTY
+      ),
+      map(({ Items = [] }) =>
+        Items.filter((item) => item[this.rangeKey] !== INIT_SIGNATURE).map(
+          (item) => this.inserted(item)
+        )
+      ),
+      filter((records) => records.length > 0)
+    );
+  }
+
+  /**
+   * A stream record of an item's insertion, for an item read from the table.
+   */
+  private inserted(item: Record<string, unknown>): _Record {
+    return {
+      eventName: 'INSERT',
+      dynamodb: {
+        Keys: marshall({
+          [this.hashKey]: item[this.hashKey],
+          [this.rangeKey]: item[this.rangeKey],
+        }) as Record<string, StreamAttributeValue>,
+        NewImage: marshall(item, this.translation.marshallOptions) as Record<
+          string,
+          StreamAttributeValue
+        >,
+      },
+    };
+  }
+
+  /**
+   * Set a new handoff token on the init record, leaving the rest of it as
+   * written by init(). The update is conditional on the init record
+   * existing, so a replay never writes a partial one.
+   */
+  private touch(): Observable<string> {
+    const handoff = random().base62;
+
+    return from(
+      this.client.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { [this.hashKey]: this.id, [this.rangeKey]: INIT_SIGNATURE },
+          UpdateExpression: 'SET #handoff = :handoff',
+          ConditionExpression: 'attribute_exists(#rangeKey)',
+          ExpressionAttributeNames: {
+            '#handoff': 'handoff',
+            '#rangeKey': this.rangeKey,
+          },
+          ExpressionAttributeValues: { ':handoff': handoff },
+        })
+      )
+    ).pipe(
+      map(() => handoff),
+      catchError((error) =>
+        throwError(() =>
+          error.name === 'ConditionalCheckFailedException'
+            ? new FatalError(
+                `Unable to hand off the replay: the init record of ${this.id} is missing`
+              )
+            : error
+        )
+      )
+    );
+  }
+
+  /**
+   * Read every shard of the stream, from each shard's recorded position or
+   * else from `shardIteratorType`, calling `iterated` with each shard's ID
+   * once it has an iterator.
+   */
+  private shardRecords(
+    shardIteratorType: 'TRIM_HORIZON' | 'LATEST',
+    positions: Checkpoints,
+    iterated?: (shardId: string) => void
+  ): Observable<Batch> {
+    return new Observable<Batch>((subscriber) => {
       this.logger.debug?.(
         `[${this.id}] Starting _stream with ${shardIteratorType}, streamArn: ${this.streamArn}`
       );
@@ -520,6 +904,58 @@ export class DynamoDBImpl<
       const subscriptions: Subscription[] = [];
       let isCleaningUp = false;
 
+      const shardIterator = (
+        shard: Shard,
+        position?: string
+      ): Observable<string | undefined> => {
+        if (!position) {
+          return from(
+            this.streamClient.send(
+              new GetShardIteratorCommand({
+                StreamArn: this.streamArn,
+                ShardId: shard.ShardId,
+                ShardIteratorType: shardIteratorType,
+              })
+            )
+          ).pipe(map(({ ShardIterator }) => ShardIterator));
+        }
+
+        this.logger.debug?.(
+          `[${this.id}] Resuming shard ${shard.ShardId} after ${position}`
+        );
+        return from(
+          this.streamClient.send(
+            new GetShardIteratorCommand({
+              StreamArn: this.streamArn,
+              ShardId: shard.ShardId,
+              ShardIteratorType: 'AFTER_SEQUENCE_NUMBER',
+              SequenceNumber: position,
+            })
+          )
+        ).pipe(
+          map(({ ShardIterator }) => ShardIterator),
+          catchError((error: Error) => {
+            if (error.name !== 'TrimmedDataAccessException') {
+              return throwError(() => error);
+            }
+            // The checkpoint is older than the stream's retention, so read
+            // everything that is still available
+            this.logger.warn?.(
+              `[${this.id}] Checkpoint ${position} for shard ${shard.ShardId} has been trimmed, resuming from TRIM_HORIZON`
+            );
+            return from(
+              this.streamClient.send(
+                new GetShardIteratorCommand({
+                  StreamArn: this.streamArn,
+                  ShardId: shard.ShardId,
+                  ShardIteratorType: 'TRIM_HORIZON',
+                })
+              )
+            ).pipe(map(({ ShardIterator }) => ShardIterator));
+          })
+        );
+      };
+
       subscriptions.push(
         this.shards
           .pipe(
@@ -527,16 +963,11 @@ export class DynamoDBImpl<
               this.logger.debug?.(`[${this.id}] New shard: ${shard.ShardId}`);
             }),
             concatMap((shard) =>
-              from(
-                this.streamClient.send(
-                  new GetShardIteratorCommand({
-                    StreamArn: this.streamArn,
-                    ShardId: shard.ShardId,
-                    ShardIteratorType: shardIteratorType,
-                  })
-                )
+              shardIterator(
+                shard,
+                shard.ShardId ? positions[shard.ShardId] : undefined
               ).pipe(
-                map(({ ShardIterator }) => ({
+                map((ShardIterator) => ({
                   ShardIterator,
                   ShardId: shard.ShardId,
                 }))
@@ -548,6 +979,9 @@ export class DynamoDBImpl<
               if (ShardIterator) {
                 iterator.next({ iterator: ShardIterator, shardId: ShardId });
               }
+              if (ShardId) {
+                iterated?.(ShardId);
+              }
             },
             error: (error) => {
               this.logger.warn?.(
@@ -580,30 +1014,15 @@ export class DynamoDBImpl<
           )
           .subscribe({
             next: ({ Records = [], NextShardIterator, ShardId }) => {
-              Records = Records.filter((r) => {
-                if (
-                  r.dynamodb?.Keys?.[this.hashKey]?.S === this.id &&
-                  r.dynamodb?.Keys?.[this.rangeKey]?.S === INIT_SIGNATURE
-                ) {
-                  this.logger.debug?.(`[${this.id}] Skipping init record`);
-                  return false;
-                }
-                return true;
-              });
-
-              const updates = Records.filter(
-                (r) => r.eventName === 'INSERT' || r.eventName === 'MODIFY'
-              );
-
-              const deletes = Records.filter((r) => r.eventName === 'REMOVE');
-
-              subscriber.next(updates);
+              const batch: Batch = { records: Records };
+              const position =
+                Records[Records.length - 1]?.dynamodb?.SequenceNumber;
+              if (ShardId && position) {
+                batch.shardId = ShardId;
+                batch.position = position;
+              }
 
-              deletes.forEach((r) =>
-                asyncScheduler.schedule(() =>
-                  this.events.expire(r.dynamodb?.SequenceNumber, r)
-                )
-              );
+              subscriber.next(batch);
 
               if (NextShardIterator && !isCleaningUp) {
                 subscriptions.push(
@@ -626,7 +1045,7 @@ export class DynamoDBImpl<
             },
             complete: () => {
               this.logger.debug?.(`[${this.id}] Stream iterator completed`);
-              subscriber.next([]);
+              subscriber.next({ records: [] });
               subscriber.complete();
             },
           })
@@ -644,68 +1063,109 @@ export class DynamoDBImpl<
     });
   }
 
-  protected _snapshot<T>(filter: Filter<T>): Observable<T[]> {
-    return new Observable<T[]>((subscriber) => {
+  protected _snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>> {
+    return new Observable<Snapshot<T>>((subscriber) => {
       this.logger.debug?.(`[${this.id}] Fetching snapshot from DynamoDB...`);
 
-      const { expressions, names, filters } = Object.entries(filter).reduce(
-        (acc, [key, value]) => {
-          acc.expressions[`:${key}`] = value;
-          acc.names[`#${key}`] = key;
-          acc.filters.push(`#data.#${key} = :${key}`);
-          return acc;
-        },
-        {
-          expressions: {
-            ':hashKey': this.id,
-          } as Record<string, unknown>,
-          names: { '#data': 'data' } as Record<string, string>,
-          filters: [] as string[],
-        }
+      const { limit, order = 'desc', cursor } = options;
+      // Encrypted payloads can only be filtered once decrypted
+      const { expression, names, values } = compile(
+        this.encrypted ? {} : filter
       );
 
-      let query = new QueryCommand({
+      // Skip rows holding later parts of chunked items, and leave chunked
+      // items to be filtered once reassembled
+      const conditions = ['(attribute_not_exists(#chunks) OR #part = :head)'];
+      if (expression) {
+        conditions.push(`(${expression} OR attribute_exists(#chunks))`);
+      }
+
+      const query = new QueryCommand({
         TableName: this.tableName,
         KeyConditionExpression: `${this.hashKey} = :hashKey`,
-        FilterExpression: filters.length ? filters.join(' AND ') : undefined,
-        ExpressionAttributeNames: filters.length ? names : undefined,
-        ExpressionAttributeValues: expressions,
-        ScanIndexForward: false,
+        FilterExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: {
+          ...names,
+          '#chunks': '__chunks',
+          '#part': '__part',
+        },
+        ExpressionAttributeValues: {
+          ...values,
+          ':hashKey': this.id,
+          ':head': 0,
+        },
+        ScanIndexForward: order === 'asc',
         ConsistentRead: true,
+        Limit: limit,
+        ExclusiveStartKey:
+          cursor !== undefined
+            ? decodeCursor<Record<string, unknown>>(cursor)
+            : undefined,
       });
 
       const subscription = from(this.client.query(query.input))
-        // const subscription = from(this.client.query(query.input))
         .pipe(
-          expand((response) => {
-            const lastEvaluatedKey = response.LastEvaluatedKey;
-            if (!lastEvaluatedKey) return EMPTY;
-
-            query.input.ExclusiveStartKey = lastEvaluatedKey;
-
-            return from(
-              this.client.query({
-                ...query.input,
-                ExclusiveStartKey: lastEvaluatedKey,
-              })
-            );
-          }),
-          map((response) => {
-            const items = (response.Items || []) as DynamoDBStoredData<T>[];
-            // Extract the 'data' field from each DynamoDB record
-            return items
-              .filter((item) => item[this.rangeKey] !== INIT_SIGNATURE)
-              .map((item) => item.data);
+          concatMap((response) =>
+            from(
+              (response.Items || []) as DynamoDBStoredData<Expireable<T>>[]
+            ).pipe(
+              concatMap((item) =>
+                item.__chunks ? this.reassemble(item) : of(item)
+              ),
+              toArray(),
+              map((items) => ({
+                response,
+                items: items.filter(
+                  (item): item is DynamoDBStoredData<Expireable<T>> => !!item
+                ),
+              }))
+            )
+          ),
+          map(({ response, items }) => {
+            // Extract the 'data' field from each DynamoDB record, hiding
+            // items that are scheduled for a future emission
+            const snapshot: Snapshot<T> = {
+              items: items
+                .filter((item) => item[this.rangeKey] !== INIT_SIGNATURE)
+                .filter((item) => !this.scheduled(item.data))
+                .map((row) => {
+                  const {
+                    __chunks,
+                    data: { __emits: _emits, ...data },
+                  } = row;
+                  return {
+                    chunked: !!__chunks,
+                    item: this.codec.decode(data, `${row[this.rangeKey]}`) as T,
+                  };
+                })
+                .filter(
+                  ({ chunked, item }) =>
+                    !(this.encrypted || chunked) || this.matches(item, filter)
+                )
+                .map(({ item }) => item),
+            };
+            if (response.LastEvaluatedKey) {
+              snapshot.cursor = encodeCursor(response.LastEvaluatedKey);
+            }
+            return snapshot;
           })
         )
         .subscribe({
-          next: (items) => {
+          next: (snapshot) => {
             this.logger.debug?.(
-              `[${this.id}] Fetched ${items.length} items from snapshot`
+              `[${this.id}] Fetched ${snapshot.items.length} items from snapshot`
             );
-            subscriber.next(items);
+            subscriber.next(snapshot);
           },
           error: (error) => {
+            if (error instanceof KeyUnavailableError) {
+              // The data key is unwrapped and the page fetched again
+              subscriber.error(error);
+              return;
+            }
             this.logger.error?.(
               `[${this.id}] Failed to fetch snapshot:`,
               error
@@ -737,43 +1197,15 @@ export class DynamoDBImpl<
 
       const hashKeyValue = this.id;
       const rangeKeyValue = hashFn(item);
+      const rows = this.rows(item, rangeKeyValue);
+      const matcher = this.matcher(rangeKeyValue, matched);
 
-      const record: DynamoDBStoredData<T> = {
-        [this.hashKey]: hashKeyValue,
-        [this.rangeKey]: rangeKeyValue,
-        data: item,
-      };
-
-      if (item.__expires) {
-        record[this.ttlAttribute] = item.__expires;
-      }
-
-      const matcher: Matcher<_Record> = (event: _Record): boolean => {
-        const dynamoRecord = event.dynamodb;
-        if (!dynamoRecord?.Keys) return false;
-        const eventHashKey = dynamoRecord.Keys[this.hashKey]?.S;
-        const eventRangeKey = dynamoRecord.Keys[this.rangeKey]?.S;
-
-        if (eventHashKey === hashKeyValue && eventRangeKey === rangeKeyValue) {
-          // TODO: Write sequence number to a checkpoint store
-          this.logger.debug?.(
-            `[${this.id}] Stored item matched event with SequenceNumber: ${dynamoRecord.SequenceNumber}`
-          );
-          matched?.(event);
-          return true;
-        }
-
-        return false;
-      };
-
-      const subscription = from(
-        this.client.send(
-          new PutCommand({
-            TableName: this.tableName,
-            Item: record,
-          })
-        )
-      ).subscribe({
+      const subscription = this.put(rows, rangeKeyValue).subscribe({
+        next: (existing) => {
+          if (existing) {
+            matcher.existing = existing;
+          }
+        },
         error: (error) => {
           this.logger.error?.(`[${this.id}] Failed to store item:`, error);
           subscriber.error(
@@ -795,15 +1227,439 @@ export class DynamoDBImpl<
     });
   }
 
-  protected _unmarshall<T>(
-    event: _Record
-  ): Streamed<
-    Expireable<T>,
-    NonNullable<_Record['dynamodb']>['SequenceNumber']
-  > {
-    const marker = event.dynamodb?.SequenceNumber;
+  /**
+   * Store items with BatchWriteItem, in batches of up to 25.
+   *
+   * Batch writes can't return the rows they replace, so items that may
+   * replace a chunked item (those with a `hashFn`) and chunked items
+   * themselves are written one at a time, as {@link _store} does.
+   */
+  protected override _storeMany<T>(
+    items: Expireable<T>[]
+  ): Observable<Matcher<_Record>[]> {
+    return defer(() => {
+      this.logger.debug?.(`[${this.id}] Storing ${items.length} items`);
+
+      const writes = items.map((item) => {
+        const hashFn = item.hashFn;
+        delete item.hashFn;
+        const key = hashFn ? hashFn(item) : random().base62;
+        return {
+          key,
+          rows: this.rows(item, key),
+          batched: !hashFn,
+          matcher: this.matcher(key),
+        };
+      });
+
+      // A batch can't hold the same key twice
+      const batches: { keys: Set<string>; rows: Record<string, unknown>[] }[] =
+        [];
+      writes
+        .filter(({ rows, batched }) => batched && rows.length === 1)
+        .forEach(({ key, rows }) => {
+          const batch = batches[batches.length - 1];
+          if (
+            !batch ||
+            batch.rows.length === BATCH_SIZE ||
+            batch.keys.has(key)
+          ) {
+            batches.push({ keys: new Set([key]), rows });
+            return;
+          }
+          batch.keys.add(key);
+          batch.rows.push(...rows);
+        });
+
+      return concat(
+        from(batches).pipe(concatMap(({ rows }) => this.batchWrite(rows))),
+        from(
+          writes.filter(({ rows, batched }) => !batched || rows.length > 1)
+        ).pipe(
+          concatMap(({ key, rows, matcher }) =>
+            this.put(rows, key).pipe(
+              tap((existing) => {
+                if (existing) {
+                  matcher.existing = existing;
+                }
+              })
+            )
+          )
+        )
+      ).pipe(
+        toArray(),
+        map(() => writes.map(({ matcher }) => matcher)),
+        catchError((error) => {
+          this.logger.error?.(`[${this.id}] Failed to store items:`, error);
+          return throwError(() =>
+            error instanceof FatalError
+              ? error
+              : new FatalError(`Failed to store items: ${error.message}`)
+          );
+        })
+      );
+    });
+  }
+
+  /**
+   * The rows an item is written as: one, or one per chunk of a large item.
+   */
+  private rows<T>(
+    item: Expireable<T>,
+    rangeKeyValue: string
+  ): Record<string, unknown>[] {
+    const data = this.codec.encode(item, rangeKeyValue);
+    const payload = Buffer.from(JSON.stringify(data));
+
+    if (payload.length > this.maxItemSize) {
+      throw new ItemTooLargeError(payload.length, this.maxItemSize);
+    }
+
+    const record: DynamoDBStoredData<T> = {
+      [this.hashKey]: this.id,
+      [this.rangeKey]: rangeKeyValue,
+      data: data as T,
+    };
+
+    if (item.__expires) {
+      record[this.ttlAttribute] = item.__expires;
+    }
+
+    if (payload.length <= CHUNK_SIZE) {
+      return [record];
+    }
+
+    // Items too large for one row are split across rows, with the first
+    // part last so that snapshots never find it without the others
+    const version = random().base62;
+    return split(payload)
+      .map((chunk, part, chunks) => {
+        const { data: _data, ...row } = record;
+        const attributes: Chunk = {
+          __chunks: chunks.length,
+          __part: part,
+          __version: version,
+          __chunk: chunk,
+        };
+        return {
+          ...row,
+          [this.rangeKey]: partKey(rangeKeyValue, part),
+          ...attributes,
+        };
+      })
+      .reverse();
+  }
+
+  private matcher(
+    rangeKeyValue: string,
+    matched?: (event: _Record) => void
+  ): Matcher<_Record> {
+    return (event: _Record): boolean => {
+      const dynamoRecord = event.dynamodb;
+      if (!dynamoRecord?.Keys) return false;
+      const eventHashKey = dynamoRecord.Keys[this.hashKey]?.S;
+      const eventRangeKey = dynamoRecord.Keys[this.rangeKey]?.S;
+
+      if (eventHashKey === this.id && eventRangeKey === rangeKeyValue) {
+        this.logger.debug?.(
+          `[${this.id}] Stored item matched event with SequenceNumber: ${dynamoRecord.SequenceNumber}`
+        );
+        matched?.(event);
+        return true;
+      }
+
+      return false;
+    };
+  }
+
+  /**
+   * Write an item's rows in order. When idempotent, the first part is
+   * written only if the key isn't stored yet, and the stored item is
+   * emitted instead if it is.
+   */
+  private put(
+    rows: Record<string, unknown>[],
+    rangeKeyValue: string
+  ): Observable<_Record | undefined> {
+    const head = rows.length - 1;
+    const write = (attempt: number): Observable<_Record | undefined> =>
+      from(rows).pipe(
+        concatMap((row, i) =>
+          this.client.send(
+            new PutCommand({
+              TableName: this.tableName,
+              Item: row,
+              ReturnValues: 'ALL_OLD',
+              // An expired item that TTL hasn't deleted yet is overwritten
+              ...(this.idempotent && i === head
+                ? {
+                    ConditionExpression:
+                      'attribute_not_exists(#rangeKey) OR #ttl <= :now',
+                    ExpressionAttributeNames: {
+                      '#rangeKey': this.rangeKey,
+                      '#ttl': this.ttlAttribute,
+                    },
+                    ExpressionAttributeValues: {
+                      ':now': CloudProvider.TIME(),
+                    },
+                  }
+                : {}),
+            })
+          )
+        ),
+        last(),
+        // An earlier store of the same key may have had more parts
+        concatMap(({ Attributes }) =>
+          this.removeParts(
+            rangeKeyValue,
+            rows.length,
+            Number(Attributes?.__chunks ?? 0)
+          )
+        ),
+        map(() => undefined),
+        catchError((error) =>
+          this.idempotent && error.name === 'ConditionalCheckFailedException'
+            ? this.stored(rangeKeyValue).pipe(
+                // The stored item may have been removed or expired since the
+                // condition failed, so the write is tried again
+                concatMap((existing) => {
+                  if (existing) {
+                    return of(existing);
+                  }
+                  if (attempt < 3) {
+                    return write(attempt + 1);
+                  }
+                  return throwError(
+                    () =>
+                      new FatalError(
+                        `Item with rangeKey ${rangeKeyValue} is neither stored nor writable`
+                      )
+                  );
+                })
+              )
+            : throwError(() => error)
+        )
+      );
+
+    if (!this.idempotent || !head) {
+      return write(1);
+    }
+    // The other parts would overwrite those of a stored item before the
+    // condition on the first part fails, so look for it beforehand
+    return this.stored(rangeKeyValue).pipe(
+      concatMap((existing) => (existing ? of(existing) : write(1)))
+    );
+  }
+
+  /**
+   * The item stored under a key, as a record of its insertion, unless it
+   * has expired.
+   */
+  private stored(rangeKeyValue: string): Observable<_Record | undefined> {
+    return from(
+      this.client.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { [this.hashKey]: this.id, [this.rangeKey]: rangeKeyValue },
+          ConsistentRead: true,
+        })
+      )
+    ).pipe(
+      concatMap(({ Item }) =>
+        Item?.__chunks
+          ? this.reassemble(Item as DynamoDBStoredData<unknown>)
+          : of(Item)
+      ),
+      map((item) => {
+        const expires = item?.[this.ttlAttribute];
+        if (
+          !item ||
+          (typeof expires === 'number' && expires <= CloudProvider.TIME())
+        ) {
+          return undefined;
+        }
+        this.logger.debug?.(
+          `[${this.id}] Item with rangeKey ${rangeKeyValue} already stored`
+        );
+        return this.inserted(item);
+      })
+    );
+  }
+
+  /**
+   * Write rows with BatchWriteItem, retrying unprocessed rows with backoff.
+   */
+  private batchWrite(
+    rows: Record<string, unknown>[],
+    attempt: number = 0
+  ): Observable<void> {
+    return from(
+      this.client.send(
+        new BatchWriteCommand({
+          RequestItems: {
+            [this.tableName]: rows.map((Item) => ({ PutRequest: { Item } })),
+          },
+        })
+      )
+    ).pipe(
+      concatMap(({ UnprocessedItems }) => {
+        const unprocessed = (UnprocessedItems?.[this.tableName] || [])
+          .map(({ PutRequest }) => PutRequest?.Item)
+          .filter((item): item is Record<string, unknown> => !!item);
+
+        if (!unprocessed.length) {
+          return of(undefined);
+        }
+        if (attempt >= BATCH_RETRIES) {
+          return throwError(
+            () =>
+              new FatalError(
+                `Failed to write ${unprocessed.length} unprocessed items`
+              )
+          );
+        }
+
+        this.logger.debug?.(
+          `[${this.id}] Retrying ${unprocessed.length} unprocessed items`
+        );
+        return timer(Math.min(50 * 2 ** attempt, 5000)).pipe(
+          concatMap(() => this.batchWrite(unprocessed, attempt + 1))
+        );
+      })
+    );
+  }
+
+  protected _remove(marker: string): Observable<boolean> {
+    return new Observable<boolean>((subscriber) => {
+      this.logger.debug?.(`[${this.id}] Removing item:`, marker);
+
+      const subscription = from(
+        this.client.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: {
+              [this.hashKey]: this.id,
+              [this.rangeKey]: marker,
+            },
+            ReturnValues: 'ALL_OLD',
+          })
+        )
+      )
+        .pipe(
+          concatMap(({ Attributes }) =>
+            this.removeParts(marker, 1, Number(Attributes?.__chunks ?? 0)).pipe(
+              map(() => Attributes)
+            )
+          )
+        )
+        .subscribe({
+          next: (Attributes) => {
+            this.logger.debug?.(
+              `[${this.id}] Removed item with rangeKey: ${marker}, existed: ${!!Attributes}`
+            );
+            subscriber.next(!!Attributes);
+            subscriber.complete();
+          },
+          error: (error) => {
+            this.logger.error?.(`[${this.id}] Failed to remove item:`, error);
+            subscriber.error(
+              new FatalError(`Failed to remove item: ${error.message}`)
+            );
+          },
+        });
+
+      return () => {
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Read the remaining parts of a chunked item, restoring its `data`, or
+   * undefined if the item was stored again in the meantime.
+   */
+  private reassemble<T>(
+    head: DynamoDBStoredData<T>
+  ): Observable<DynamoDBStoredData<T> | undefined> {
+    const {
+      __chunks,
+      __part: _part,
+      __version,
+      __chunk,
+      ...row
+    } = head as unknown as Chunk & DynamoDBStoredData<T>;
+    const keys = Array.from({ length: __chunks - 1 }, (_, i) =>
+      partKey(`${head[this.rangeKey]}`, i + 1)
+    );
+
+    return from(keys).pipe(
+      concatMap((rangeKey) =>
+        this.client.send(
+          new GetCommand({
+            TableName: this.tableName,
+            Key: { [this.hashKey]: this.id, [this.rangeKey]: rangeKey },
+            ConsistentRead: true,
+          })
+        )
+      ),
+      map(({ Item }) => Item as Chunk | undefined),
+      toArray(),
+      map((parts) => {
+        const chunks = parts.map((part) =>
+          part?.__version === __version ? part.__chunk : undefined
+        );
+        if (chunks.some((chunk) => !chunk)) {
+          this.logger.debug?.(
+            `[${this.id}] Skipping ${head[this.rangeKey]}, stored again while reading`
+          );
+          return undefined;
+        }
+        return {
+          ...row,
+          __chunks,
+          data: join<T>([__chunk, ...(chunks as Uint8Array[])]),
+        };
+      })
+    );
+  }
+
+  /**
+   * Delete the rows of parts `start` up to `end` of a chunked item.
+   */
+  private removeParts(
+    key: string,
+    start: number,
+    end: number
+  ): Observable<unknown[]> {
+    const keys = Array.from({ length: Math.max(0, end - start) }, (_, i) =>
+      partKey(key, start + i)
+    );
+
+    return from(keys).pipe(
+      concatMap((rangeKey) =>
+        this.client.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: { [this.hashKey]: this.id, [this.rangeKey]: rangeKey },
+          })
+        )
+      ),
+      toArray()
+    );
+  }
+
+  protected _isRemoval(event: _Record): boolean {
+    return event.eventName === 'REMOVE';
+  }
+
+  /**
+   * Unmarshall a stream record. The marker is the record's range key, which
+   * identifies the stored item across INSERT, MODIFY and REMOVE events.
+   */
+  protected _unmarshall<T>(event: _Record): Streamed<Expireable<T>, string> {
+    const marker = event.dynamodb?.Keys?.[this.rangeKey]?.S;
     if (!marker) {
-      throw new FatalError('Invalid DynamoDB record: missing SequenceNumber');
+      throw new FatalError('Invalid DynamoDB record: missing range key');
     }
     const image = event.dynamodb?.NewImage || event.dynamodb?.OldImage;
     if (!image) {
@@ -812,8 +1668,13 @@ export class DynamoDBImpl<
       );
     }
     const storedData = unmarshall(image) as DynamoDBStoredData<Expireable<T>>;
+    // Chunked items arrive with every chunk once assembled from the stream
+    const { __chunk } = storedData as { __chunk?: unknown };
+    const data = Array.isArray(__chunk)
+      ? join<Expireable<T>>(__chunk as Uint8Array[])
+      : storedData.data;
     const result = {
-      ...storedData.data,
+      ...(this.codec.decode(data, marker) as Expireable<T>),
       __marker__: marker,
     };
 
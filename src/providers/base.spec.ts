@@ -0,0 +1,51 @@
+/* global describe, it, expect */
+import { Filter, Path } from './base';
+
+class Account {
+  constructor(public owner: string) {}
+
+  greet(): string {
+    return `Hello, ${this.owner}`;
+  }
+}
+
+type Data = {
+  message: string;
+  user: { name: string; region?: string };
+  created: Date;
+  tags: string[];
+  lookup: Map<string, string>;
+  seen: Set<string>;
+  format: (value: string) => string;
+  account: Account;
+};
+
+describe('Path', () => {
+  it('reaches the primitive fields of plain objects', () => {
+    const paths: Path<Data>[] = ['message', 'user.name', 'user.region'];
+    const filter: Filter<Data> = { 'user.name': 'ann' };
+    expect(paths).toHaveLength(3);
+    expect(filter).toEqual({ 'user.name': 'ann' });
+  });
+
+  it('does not descend into arrays, functions or objects with methods', () => {
+    const paths: Path<Data>[] = [
+      // @ts-expect-error Dates are leaves
+      'created.getTime',
+      // @ts-expect-error arrays are leaves
+      'tags.length',
+      // @ts-expect-error Maps are leaves
+      'lookup.size',
+      // @ts-expect-error Sets are leaves
+      'seen.size',
+      // @ts-expect-error functions are leaves
+      'format.name',
+      // @ts-expect-error class instances are leaves
+      'account.owner',
+    ];
+    // @ts-expect-error leaves that aren't primitives have no path
+    const filter: Filter<Data> = { created: new Date() };
+    expect(paths).toHaveLength(6);
+    expect(filter).toBeDefined();
+  });
+});
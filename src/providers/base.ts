@@ -1,11 +1,17 @@
 import { _Record } from '@aws-sdk/client-dynamodb-streams';
 import {
   asyncScheduler,
-  combineLatest,
+  catchError,
+  concatMap,
+  defer,
+  EMPTY,
+  expand,
   filter,
+  from,
   fromEvent,
   isObservable,
   map,
+  merge,
   Observable,
   observeOn,
   Observer,
@@ -17,8 +23,17 @@ import {
   take,
   takeUntil,
   tap,
+  throwError,
+  toArray,
 } from 'rxjs';
 import { InfoLogger, Logger } from '../util';
+import {
+  Checkpoint,
+  CheckpointStore,
+  MemoryCheckpointStore,
+} from '../checkpoints';
+import { Codec, JsonCodec } from '../codecs';
+import { EnvelopeCodec, KeyProvider, KeyUnavailableError } from '../crypto';
 import { EventEmitter } from 'stream';
 
 export type Streamed<T, TMarker> = T & {
@@ -27,8 +42,212 @@ export type Streamed<T, TMarker> = T & {
 
 export type Primitive = string | number | boolean | null | undefined;
 
+// Bounds the recursion of Path<T>
+type Depth = [never, 0, 1, 2, 3, 4];
+
+// The method names of V, which plain data objects have none of
+type Methods<V> = {
+  [K in keyof V]-?: NonNullable<V[K]> extends (...args: never[]) => unknown
+    ? K
+    : never;
+}[keyof V];
+
+/**
+ * Objects Path<T> descends into: plain data, not arrays, functions or
+ * objects with methods (Dates, Maps, Sets, class instances).
+ */
+type Plain<V> = V extends readonly unknown[] | ((...args: never[]) => unknown)
+  ? false
+  : [Methods<V>] extends [never]
+    ? true
+    : false;
+
+/**
+ * Dotted paths to the primitive fields of T, e.g. `'user.name'`. Fields
+ * holding anything but primitives and plain objects are leaves without a
+ * path, since they aren't stored as they are.
+ */
+export type Path<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]: NonNullable<T[K]> extends Primitive
+        ? K
+        : NonNullable<T[K]> extends object
+          ? Plain<NonNullable<T[K]>> extends true
+            ? `${K}.${Path<NonNullable<T[K]>, Depth[D]>}`
+            : never
+          : never;
+    }[keyof T & string];
+
+/**
+ * The type of the field at a dotted path of T.
+ */
+export type PathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer K}.${infer R}`
+    ? K extends keyof T
+      ? PathValue<NonNullable<T[K]>, R> | Extract<T[K], undefined>
+      : never
+    : never;
+
+/**
+ * Filter operators. Several operators on one field must all hold.
+ */
+export type Operators<V> = {
+  $eq?: V;
+  $ne?: V;
+  $gt?: NonNullable<V>;
+  $gte?: NonNullable<V>;
+  $lt?: NonNullable<V>;
+  $lte?: NonNullable<V>;
+  $between?: [NonNullable<V>, NonNullable<V>]; // Inclusive
+  $in?: V[];
+  $exists?: boolean;
+} & (NonNullable<V> extends string ? { $beginsWith?: string } : unknown);
+
+export type Operator = keyof Operators<string>;
+
+/**
+ * A field condition: a value to compare for equality, or operators.
+ */
+export type Condition<V> = V | Operators<V>;
+
+/**
+ * Snapshot filter, by dotted path to a primitive field. All conditions must
+ * hold.
+ */
 export type Filter<T> = {
-  [K in keyof T as T[K] extends Primitive ? K : never]?: T[K];
+  [P in Path<T>]?: Condition<PathValue<T, P>>;
+};
+
+/** A single operator applied to a field, see {@link clauses} */
+export type Clause = {
+  path: string[];
+  operator: Operator;
+  value: unknown;
+};
+
+const OPERATORS: Operator[] = [
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$between',
+  '$beginsWith',
+  '$in',
+  '$exists',
+];
+
+/**
+ * Flatten a filter into clauses, validating its operators, so that
+ * providers can evaluate or compile it.
+ */
+export const clauses = <T>(filter: Filter<T>): Clause[] =>
+  Object.entries(filter).flatMap(([key, condition]): Clause[] => {
+    const path = key.split('.');
+
+    if (
+      typeof condition !== 'object' ||
+      condition === null ||
+      Array.isArray(condition)
+    ) {
+      return [{ path, operator: '$eq', value: condition }];
+    }
+
+    return Object.entries(condition).map(([operator, value]) => {
+      if (!OPERATORS.includes(operator as Operator)) {
+        throw new FatalError(
+          `Unsupported filter operator on ${key}: ${operator}`
+        );
+      }
+      if (
+        operator === '$between' &&
+        !(Array.isArray(value) && value.length === 2)
+      ) {
+        throw new FatalError(`$between on ${key} requires [low, high]`);
+      }
+      if (operator === '$in' && !(Array.isArray(value) && value.length)) {
+        throw new FatalError(`$in on ${key} requires at least one value`);
+      }
+      return { path, operator: operator as Operator, value };
+    });
+  });
+
+/**
+ * Whether an item satisfies a filter, for providers that filter
+ * client-side.
+ */
+export const evaluate = <T>(item: T, filter: Filter<T>): boolean =>
+  clauses(filter).every(({ path, operator, value }) => {
+    const actual = path.reduce<unknown>(
+      (parent, key) =>
+        typeof parent === 'object' && parent !== null
+          ? (parent as Record<string, unknown>)[key]
+          : undefined,
+      item
+    );
+
+    // Ordering only applies between values of the same type
+    const comparable = (other: unknown): boolean =>
+      actual !== undefined && actual !== null && typeof actual === typeof other;
+    const a = actual as string | number;
+    const v = value as string | number;
+
+    switch (operator) {
+      case '$eq':
+        return actual === value;
+      case '$ne':
+        return actual !== value;
+      case '$gt':
+        return comparable(value) && a > v;
+      case '$gte':
+        return comparable(value) && a >= v;
+      case '$lt':
+        return comparable(value) && a < v;
+      case '$lte':
+        return comparable(value) && a <= v;
+      case '$between': {
+        const [low, high] = value as [string | number, string | number];
+        return comparable(low) && a >= low && a <= high;
+      }
+      case '$beginsWith':
+        return typeof actual === 'string' && actual.startsWith(`${value}`);
+      case '$in':
+        return (value as unknown[]).includes(actual);
+      case '$exists':
+        return (actual !== undefined) === value;
+    }
+  });
+
+export type SnapshotOptions = {
+  limit?: number; // Maximum items per page
+  order?: 'asc' | 'desc'; // Default: 'desc' (newest first)
+  cursor?: string | undefined; // Continuation token of the previous page
+};
+
+/** A page of a snapshot */
+export type Snapshot<T> = {
+  items: T[];
+  cursor?: string; // Continuation token, when there may be more items
+};
+
+/**
+ * Encode a provider-specific position as an opaque snapshot cursor.
+ */
+export const encodeCursor = (position: unknown): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+/**
+ * Decode a snapshot cursor produced by {@link encodeCursor}.
+ */
+export const decodeCursor = <P>(cursor: string): P => {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString()) as P;
+  } catch {
+    throw new FatalError(`Invalid snapshot cursor: ${cursor}`);
+  }
 };
 
 export interface ICloudProvider<TEvent> {
@@ -39,10 +258,19 @@ export interface ICloudProvider<TEvent> {
 
   init(): Observable<this>;
   snapshot<T>(filter: Filter<T>): Observable<T[]>;
-  stream(all?: boolean): Observable<TEvent>;
+  snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>>;
+  snapshot$<T>(filter?: Filter<T>, options?: SnapshotOptions): Observable<T>;
+  stream(all?: boolean, checkpoint?: string): Observable<TEvent>;
   expired(): Observable<TEvent>;
+  removed(): Observable<TEvent>;
   store<T>(item: Expireable<T>): Observable<T>;
+  storeMany<T>(items: Expireable<T>[]): Observable<T>;
+  remove<T>(marker: unknown): Observable<T>;
   unmarshall<T>(event: TEvent): T;
+  marker(event: TEvent): unknown;
 }
 
 export const DEFAULT_NAMESPACE = 'cloudrx';
@@ -50,23 +278,64 @@ export const DEFAULT_NAMESPACE = 'cloudrx';
 export type CloudOptions = {
   namespace?: Observable<string> | string; // Default: DEFAULT_NAMESPACE
   logger?: Logger;
+  checkpoints?: CheckpointStore; // Default: CloudProvider.DEFAULT_CHECKPOINTS
+  codec?: Codec; // Default: CloudProvider.DEFAULT_CODEC
+  encryption?: KeyProvider; // Encrypt stored payloads with per-record data keys
+  allowPlaintext?: boolean; // With encryption, decode payloads stored without it, Default: false
 };
 
-export type Matcher<TEvent> = (
-  event: TEvent,
-  matched?: (event: TEvent) => void
-) => boolean;
+export type Matcher<TEvent> = {
+  (event: TEvent, matched?: (event: TEvent) => void): boolean;
+  // The event of an item already stored under the key, when an idempotent
+  // store wrote nothing and so no stream event will arrive
+  existing?: TEvent;
+};
 
 export type Expireable<T> = T & {
   __expires?: number;
+  __emits?: number;
   hashFn?: (value: T) => string;
 };
 
-export type StreamEvents<T> = { start: []; expired: [T]; end: [] };
+export type StreamEvents<T, M = unknown> = {
+  start: [];
+  expiring: [M, T];
+  expired: [T];
+  removed: [T];
+  end: [];
+};
+/** The longest delay a timer holds; Node fires longer ones after 1ms */
+const MAX_DELAY = 2 ** 31 - 1;
+
+/**
+ * Run work after a delay of any length. Delays past {@link MAX_DELAY} are
+ * split into timers of at most that long, each re-armed as it fires.
+ */
+const schedule = (work: () => void, delayMs: number): Subscription => {
+  const subscription = new Subscription();
+  const arm = (remaining: number): void => {
+    const action = asyncScheduler.schedule(
+      () => {
+        subscription.remove(action);
+        if (remaining > MAX_DELAY) {
+          arm(remaining - MAX_DELAY);
+        } else {
+          work();
+        }
+      },
+      Math.min(remaining, MAX_DELAY)
+    );
+    subscription.add(action);
+  };
+  arm(delayMs);
+  return subscription;
+};
+
 export class StreamEvent<TEvent, TMarker> extends EventEmitter<
-  StreamEvents<TEvent>
+  StreamEvents<TEvent, TMarker>
 > {
   private expirations: Map<TMarker, Subscription> = new Map();
+  private deferred: Set<Subscription> = new Set();
   private disposed = false;
 
   constructor() {
@@ -87,11 +356,42 @@ export class StreamEvent<TEvent, TMarker> extends EventEmitter<
       return;
     }
     this.disposed = true;
+    this.removeAllListeners('expiring');
     this.removeAllListeners('expired');
+    this.removeAllListeners('removed');
     this.expirations.forEach((sub) => sub.unsubscribe());
     this.expirations.clear();
+    this.deferred.forEach((sub) => sub.unsubscribe());
+    this.deferred.clear();
   }
 
+  /**
+   * Run work after a delay. Pending work is cancelled on dispose, or by
+   * unsubscribing the returned subscription.
+   */
+  defer(work: () => void, delayMs: number = 0): Subscription {
+    if (this.disposed) {
+      return Subscription.EMPTY;
+    }
+
+    const sub = schedule(() => {
+      this.deferred.delete(sub);
+      if (this.disposed) {
+        return;
+      }
+      work();
+    }, delayMs);
+
+    this.deferred.add(sub);
+    sub.add(() => this.deferred.delete(sub));
+    return sub;
+  }
+
+  /**
+   * Schedule an 'expiring' event for a marker. The provider responds by
+   * removing the record, and the resulting removal from the stream is
+   * what surfaces as 'expired'.
+   */
   expire(marker: TMarker, event: TEvent, delaySec: number = 0): void {
     if (this.disposed || this.expirations.has(marker)) {
       return;
@@ -99,15 +399,12 @@ export class StreamEvent<TEvent, TMarker> extends EventEmitter<
 
     this.expirations.set(
       marker,
-      asyncScheduler.schedule(() => {
+      schedule(() => {
         if (this.disposed) {
           return;
         }
-        // TODO: Instead of emitting expired:
-        // - Implement remove functionality
-        // - Wait for removal event from stream
-        this.emit('expired', event);
         this.expirations.delete(marker);
+        this.emit('expiring', marker, event);
       }, delaySec * 1000)
     );
   }
@@ -126,11 +423,15 @@ export class StreamEvent<TEvent, TMarker> extends EventEmitter<
   }
 }
 
-export abstract class CloudProvider<TEvent, TMarker>
-  implements ICloudProvider<TEvent>
-{
+export abstract class CloudProvider<
+  TEvent,
+  TMarker,
+> implements ICloudProvider<TEvent> {
   private static aborts: AbortController[] = [];
   public static DEFAULT_LOGGER = new InfoLogger();
+  public static DEFAULT_CHECKPOINTS: CheckpointStore =
+    new MemoryCheckpointStore();
+  public static DEFAULT_CODEC: Codec = new JsonCodec();
   public static TIME = (date = new Date()): number =>
     Math.floor(date.getTime() / 1000);
 
@@ -144,6 +445,9 @@ export abstract class CloudProvider<TEvent, TMarker>
   private _init$?: Observable<this>;
   private _stream$?: Observable<TEvent[]>;
   private _logger: Logger;
+  private _checkpoints: CheckpointStore;
+  private _codec: Codec;
+  private _envelope?: EnvelopeCodec;
   private _signal: AbortSignal;
   protected _namespace: string;
 
@@ -152,6 +456,8 @@ export abstract class CloudProvider<TEvent, TMarker>
 
     this.logger.debug?.(`[${this.id}] Creating new 'latest' stream`);
     this._stream$ = this._stream(false).pipe(
+      concatMap((events) => this.decodable(events)),
+      map((events) => this.removals(events)),
       observeOn(asyncScheduler),
       shareReplay(1)
     );
@@ -201,6 +507,14 @@ export abstract class CloudProvider<TEvent, TMarker>
     opts?: CloudOptions
   ) {
     this._logger = opts?.logger ?? CloudProvider.DEFAULT_LOGGER;
+    this._checkpoints = opts?.checkpoints ?? CloudProvider.DEFAULT_CHECKPOINTS;
+    this._codec = opts?.codec ?? CloudProvider.DEFAULT_CODEC;
+    if (opts?.encryption) {
+      this._envelope = new EnvelopeCodec(this._codec, opts.encryption, {
+        allowPlaintext: !!opts.allowPlaintext,
+      });
+      this._codec = this._envelope;
+    }
     // Note: from() resolves the namespace observable and passes the string value
     this._namespace =
       typeof opts?.namespace === 'string' ? opts.namespace : DEFAULT_NAMESPACE;
@@ -223,6 +537,15 @@ export abstract class CloudProvider<TEvent, TMarker>
     process.once('beforeExit', () => {
       abort.abort(new Error('Process exiting...'));
     });
+
+    this.events.on('expiring', (marker) => {
+      this.logger.debug?.(`[${this.id}] Removing expired record:`, marker);
+      this._remove(marker).subscribe({
+        error: (err) => {
+          this.logger.warn?.(`[${this.id}] Failed to remove record:`, err);
+        },
+      });
+    });
   }
 
   get logger(): Logger {
@@ -237,14 +560,62 @@ export abstract class CloudProvider<TEvent, TMarker>
     return this._namespace;
   }
 
+  get checkpoints(): CheckpointStore {
+    return this._checkpoints;
+  }
+
+  get codec(): Codec {
+    return this._codec;
+  }
+
+  /**
+   * Whether stored payloads are encrypted, in which case snapshot filters
+   * can only be evaluated client-side.
+   */
+  protected get encrypted(): boolean {
+    return !!this._envelope;
+  }
+
   protected abstract _init(): Observable<this>;
-  protected abstract _snapshot<T>(filter: Filter<T>): Observable<T[]>;
-  protected abstract _stream(all: boolean): Observable<TEvent[]>;
+  protected abstract _snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>>;
+  protected abstract _stream(
+    all: boolean,
+    checkpoint?: Checkpoint
+  ): Observable<TEvent[]>;
   protected abstract _store<T>(
     item: Expireable<T>,
     hashFn?: (value: T) => string,
     matched?: (event: TEvent) => void
   ): Observable<Matcher<TEvent>>;
+  /**
+   * Write several items, returning a matcher per item. Providers with a
+   * batch write override this; by default items are written one by one.
+   */
+  protected _storeMany<T>(
+    items: Expireable<T>[]
+  ): Observable<Matcher<TEvent>[]> {
+    return from(items).pipe(
+      concatMap((item) => {
+        const hashFn = item.hashFn;
+        delete item.hashFn;
+        return this._store(item, hashFn);
+      }),
+      toArray()
+    );
+  }
+  /**
+   * Resolve what `remove()` was given, a marker or the key an item was
+   * stored under, to the marker of the stored record. Providers whose
+   * markers aren't keys override this; `undefined` means nothing is stored.
+   */
+  protected _resolve(marker: unknown): Observable<TMarker | undefined> {
+    return of(marker as TMarker);
+  }
+  protected abstract _remove(marker: TMarker): Observable<boolean>;
+  protected abstract _isRemoval(event: TEvent): boolean;
   protected abstract _unmarshall<T>(
     event: TEvent
   ): Streamed<Expireable<T>, unknown>;
@@ -266,9 +637,31 @@ export abstract class CloudProvider<TEvent, TMarker>
     });
   }
 
-  public snapshot<T>(filter: Filter<T>): Observable<T[]> {
-    return new Observable<T[]>((subscriber) => {
-      const subscription = this._snapshot<T>(filter).subscribe(subscriber);
+  /**
+   * Fetch the stored items matching a filter, newest first.
+   *
+   * Without options, every matching item is emitted as one array. With
+   * options, a single page of up to `limit` items is emitted along with a
+   * `cursor` to pass back for the next page. A page may hold fewer than
+   * `limit` items while more remain; only a missing cursor marks the end.
+   */
+  public snapshot<T>(filter: Filter<T>): Observable<T[]>;
+  public snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>>;
+  public snapshot<T>(
+    filter: Filter<T>,
+    options?: SnapshotOptions
+  ): Observable<T[] | Snapshot<T>> {
+    if (!options) {
+      return this.snapshot$(filter).pipe(toArray());
+    }
+
+    return new Observable<Snapshot<T>>((subscriber) => {
+      const subscription = this.unwrapping(() =>
+        this._snapshot<T>(filter, options)
+      ).subscribe(subscriber);
 
       return () => {
         subscription.unsubscribe();
@@ -276,7 +669,77 @@ export abstract class CloudProvider<TEvent, TMarker>
     });
   }
 
-  public stream(all: boolean = false): Observable<TEvent> {
+  /**
+   * Emit the stored items matching a filter one at a time, fetching a page
+   * of up to `limit` items at a time, so large snapshots aren't held in
+   * memory. Unsubscribing stops fetching.
+   */
+  public snapshot$<T>(
+    filter: Filter<T> = {},
+    options: SnapshotOptions = {}
+  ): Observable<T> {
+    return this.snapshot<T>(filter, options).pipe(
+      expand(({ cursor }) =>
+        cursor ? this.snapshot<T>(filter, { ...options, cursor }) : EMPTY
+      ),
+      concatMap(({ items }) => items)
+    );
+  }
+
+  /**
+   * Take a page from items in ascending position order, for providers that
+   * paginate client-side. Positions are what their cursors encode.
+   */
+  protected page<T, P>(
+    entries: { position: P; item: T }[],
+    options: SnapshotOptions,
+    compare: (a: P, b: P) => number
+  ): Snapshot<T> {
+    const { limit, order = 'desc', cursor } = options;
+    const direction = order === 'asc' ? 1 : -1;
+    const after = cursor !== undefined ? decodeCursor<P>(cursor) : undefined;
+
+    const remaining = entries
+      .slice()
+      .sort((a, b) => direction * compare(a.position, b.position))
+      .filter(
+        ({ position }) =>
+          after === undefined || direction * compare(position, after) > 0
+      );
+
+    const page = limit !== undefined ? remaining.slice(0, limit) : remaining;
+    const last = page[page.length - 1];
+
+    const snapshot: Snapshot<T> = { items: page.map(({ item }) => item) };
+    if (last && page.length < remaining.length) {
+      snapshot.cursor = encodeCursor(last.position);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Stream events from the provider.
+   *
+   * When a `checkpoint` consumer name is given, the stream resumes right
+   * after the last event that consumer processed (falling back to `all`
+   * when no position has been recorded yet), and records its progress in
+   * the provider's checkpoint store as events are delivered.
+   */
+  public stream(all: boolean = false, checkpoint?: string): Observable<TEvent> {
+    return this.tail(all, true, checkpoint);
+  }
+
+  /**
+   * Stream events, optionally holding back events scheduled via `__emits`
+   * until their emission time has passed, and optionally keeping events of
+   * items already past their `__expires`.
+   */
+  private tail(
+    all: boolean,
+    scheduled: boolean,
+    checkpoint?: string,
+    expired: boolean = false
+  ): Observable<TEvent> {
     return new Observable<TEvent>((subscriber) => {
       const observer: Observer<TEvent> = {
         next: (event) => {
@@ -292,10 +755,42 @@ export abstract class CloudProvider<TEvent, TMarker>
         },
       };
 
+      if (checkpoint) {
+        const consumer = new Checkpoint(
+          this.checkpoints,
+          `${this.namespace}-${this.id}/${checkpoint}`,
+          this.logger
+        );
+
+        this.logger.debug?.(
+          `[${this.id}] Resuming stream from checkpoint: ${consumer.key}`
+        );
+        // Take each batch's staged positions as it is emitted, before its
+        // data keys are resolved, while they are still the batch's own
+        const batches: (() => void)[] = [];
+        const subscription = this._stream(all, consumer)
+          .pipe(
+            tap(() => batches.push(consumer.batch())),
+            concatMap((events) => this.decodable(events)),
+            map((events) => events.filter((e) => !this._isRemoval(e))),
+            this.concatAll(undefined, scheduled, expired, () => batches.shift())
+          )
+          .subscribe(observer);
+
+        return () => {
+          subscription.unsubscribe();
+          consumer.close();
+        };
+      }
+
       if (all) {
         // Don't use cached stream, always create a new one
         const subscription = this._stream(true)
-          .pipe(this.concatAll())
+          .pipe(
+            concatMap((events) => this.decodable(events)),
+            map((events) => events.filter((e) => !this._isRemoval(e))),
+            this.concatAll(undefined, scheduled, expired)
+          )
           .subscribe(observer);
 
         return () => {
@@ -321,7 +816,7 @@ export abstract class CloudProvider<TEvent, TMarker>
               this.events.emit('start');
             }
           }),
-          this.concatAll()
+          this.concatAll(undefined, scheduled, expired)
         )
         .subscribe(observer);
 
@@ -332,40 +827,117 @@ export abstract class CloudProvider<TEvent, TMarker>
   }
 
   public expired(): Observable<TEvent> {
+    return this.listen('expired');
+  }
+
+  public removed(): Observable<TEvent> {
+    return this.listen('removed');
+  }
+
+  private listen(type: 'expired' | 'removed'): Observable<TEvent> {
     return new Observable<TEvent>((subscriber) => {
       const handler = (events: TEvent): void => {
         subscriber.next(events);
       };
 
-      this.events.on('expired', handler);
+      this.events.on(type, handler);
 
       const subscription = this.stream$
         .pipe(this.concatAll(this.events))
         .subscribe({
           error: (err) => {
             // Remove handler before propagating error to ensure cleanup
-            this.events.off('expired', handler);
+            this.events.off(type, handler);
             subscriber.error(err);
           },
           complete: () => {
             // Remove handler before completing to ensure cleanup
-            this.events.off('expired', handler);
+            this.events.off(type, handler);
             subscriber.complete();
           },
         });
 
       return () => {
         subscription.unsubscribe();
-        this.events.off('expired', handler);
+        this.events.off(type, handler);
       };
     });
   }
 
+  /**
+   * Split removal events out of a batch, emitting them as 'expired' when
+   * the record was past its expiry at removal time, 'removed' otherwise.
+   */
+  private removals(events: TEvent[]): TEvent[] {
+    return events.filter((event) => {
+      if (!this._isRemoval(event)) return true;
+
+      const { __expires } = this._unmarshall(event);
+      if (__expires && __expires <= CloudProvider.TIME()) {
+        this.events.emit('expired', event);
+      } else {
+        this.events.emit('removed', event);
+      }
+
+      return false;
+    });
+  }
+
+  /**
+   * Emit a batch of events once the data keys needed to unmarshall them
+   * have been unwrapped, since codecs decode synchronously while key
+   * providers don't.
+   */
+  private decodable(events: TEvent[]): Observable<TEvent[]> {
+    if (!this._envelope) {
+      return of(events);
+    }
+    return this.unwrapping(() => {
+      events.forEach((event) => this._unmarshall(event));
+      return of(events);
+    });
+  }
+
+  /**
+   * Run work that decodes payloads, unwrapping the data key and running it
+   * again whenever it fails on a key that hasn't been unwrapped yet.
+   */
+  private unwrapping<R>(work: () => Observable<R>): Observable<R> {
+    const envelope = this._envelope;
+    if (!envelope) {
+      return defer(work);
+    }
+
+    const attempt = (): Observable<R> =>
+      defer(work).pipe(
+        catchError((err) =>
+          err instanceof KeyUnavailableError
+            ? envelope.resolve(err.wrapped).pipe(concatMap(attempt))
+            : throwError(() => err)
+        )
+      );
+    return attempt();
+  }
+
+  /**
+   * Run a write that encodes payloads once a data key is ready to encrypt
+   * them with.
+   */
+  private prepared<R>(write: () => Observable<R>): Observable<R> {
+    return this._envelope
+      ? this._envelope.prepare().pipe(concatMap(write))
+      : defer(write);
+  }
+
   private concatAll(
-    emitter?: StreamEvent<TEvent, TMarker>
+    emitter?: StreamEvent<TEvent, TMarker>,
+    scheduled: boolean = false,
+    expired: boolean = false,
+    batch?: () => (() => void) | undefined
   ): OperatorFunction<TEvent[], TEvent> {
     return (source: Observable<TEvent[]>): Observable<TEvent> => {
       return new Observable<TEvent>((subscriber) => {
+        const pending = new Subscription();
         const subscription = source
           .pipe(
             map((events) =>
@@ -384,15 +956,34 @@ export abstract class CloudProvider<TEvent, TMarker>
                   remaining
                 );
 
-                return remaining > 0;
+                return expired || remaining > 0;
               })
             )
           )
           .subscribe({
             next: (events) => {
+              // The batch's checkpoint positions wait for its deferred events
+              const delivered = batch?.();
+              let held = 0;
               events.forEach((event) => {
+                const delay = scheduled ? this.pending(event) : 0;
+                if (delay > 0) {
+                  held++;
+                  const deferred = this.events.defer(() => {
+                    pending.remove(deferred);
+                    subscriber.next(event);
+                    if (--held === 0) {
+                      delivered?.();
+                    }
+                  }, delay);
+                  pending.add(deferred);
+                  return;
+                }
                 subscriber.next(event);
               });
+              if (held === 0) {
+                delivered?.();
+              }
             },
             error: (err) => subscriber.error(err),
             complete: () => subscriber.complete(),
@@ -400,39 +991,133 @@ export abstract class CloudProvider<TEvent, TMarker>
 
         return () => {
           subscription.unsubscribe();
+          pending.unsubscribe();
         };
       });
     };
   }
 
+  /**
+   * Milliseconds until a scheduled (`__emits`) event may be delivered,
+   * or 0 if it is deliverable now.
+   */
+  private pending(event: TEvent): number {
+    const { __emits } = this._unmarshall(event);
+    if (!__emits) return 0;
+    return Math.max(0, __emits * 1000 - Date.now());
+  }
+
+  /**
+   * Whether a stored item is scheduled for a future emission, in which case
+   * it should not yet be visible to snapshots.
+   */
+  protected scheduled(item: { __emits?: number }): boolean {
+    return !!item.__emits && item.__emits * 1000 > Date.now();
+  }
+
+  /**
+   * Whether an item satisfies a snapshot filter, for providers that filter
+   * client-side.
+   */
+  protected matches<T>(item: T, filter: Filter<T>): boolean {
+    return evaluate(item, filter);
+  }
+
   public store<T>(item: Expireable<T>): Observable<T> {
     this.logger.debug?.(`[${this.id}] Starting store operation for:`, item);
 
+    return this.persisted<T>(() => {
+      const hashFn = item.hashFn;
+      delete item.hashFn;
+      return this._store(item, hashFn).pipe(map((matcher) => [matcher]));
+    });
+  }
+
+  /**
+   * Store several items in as few writes as the provider allows. Each item
+   * is emitted once its own stream event arrives, in the order they arrive,
+   * completing once every item has been emitted.
+   */
+  public storeMany<T>(items: Expireable<T>[]): Observable<T> {
+    this.logger.debug?.(`[${this.id}] Starting store of ${items.length} items`);
+
+    if (!items.length) {
+      return EMPTY;
+    }
+    return this.persisted<T>(() => this._storeMany(items));
+  }
+
+  /**
+   * Write items and emit each as its stream event arrives, matched by the
+   * matchers the write returns.
+   */
+  private persisted<T>(
+    write: () => Observable<Matcher<TEvent>[]>
+  ): Observable<T> {
     return new Observable<T>((subscriber) => {
       let stream: Subscription | undefined;
       let match: Subscription | undefined;
       const store = asyncScheduler.schedule(() => {
-        const hashFn = item.hashFn;
-        delete item.hashFn;
-
-        const match$ = this._store(item, hashFn).pipe(
+        const match$ = this.prepared(write).pipe(
+          concatMap((written) =>
+            this.decodable(
+              written.flatMap(({ existing }) => (existing ? [existing] : []))
+            ).pipe(map(() => written))
+          ),
           observeOn(asyncScheduler),
           take(1),
           shareReplay(1)
         );
 
-        const stream$ = this.stream();
+        // Match against the unscheduled stream so that items with a future
+        // `__emits` are acknowledged as soon as they are persisted, keeping
+        // items that expire before their event is read
+        const stream$ = this.tail(false, false, undefined, true);
+        const matched = new Set<Matcher<TEvent>>();
 
         this.logger.debug?.(`[${this.id}] Waiting for stream to start`);
         this.events.once('start', () => {
           this.logger.debug?.(
             `[${this.id}] Stream started, setting up matcher`
           );
-          match = combineLatest([stream$, match$])
+          // Events can arrive before the write returns its matchers, so
+          // hold them until it does
+          let matchers: Matcher<TEvent>[] | undefined;
+          const held: TEvent[] = [];
+          match = merge(
+            stream$.pipe(map((event) => [event])),
+            match$.pipe(
+              tap((written) => (matchers = written)),
+              map((written) => [
+                ...written.flatMap(({ existing }) =>
+                  existing ? [existing] : []
+                ),
+                ...held.splice(0),
+              ])
+            )
+          )
             .pipe(
               takeUntil(fromEvent(this.events, 'stop')),
-              filter(([event, match]) => match(event)),
-              map(([event]) => {
+              concatMap((events) => {
+                if (!matchers) {
+                  held.push(...events);
+                  return EMPTY;
+                }
+                const current = matchers;
+                return from(events).pipe(
+                  map((event): [TEvent, Matcher<TEvent>[]] => [event, current])
+                );
+              }),
+              filter(([event, matchers]) => {
+                const matcher = matchers.find(
+                  (matcher) => !matched.has(matcher) && matcher(event)
+                );
+                if (matcher) {
+                  matched.add(matcher);
+                }
+                return !!matcher;
+              }),
+              map(([event, matchers]) => {
                 const streamed = this._unmarshall(event) as Streamed<
                   T,
                   TMarker
@@ -442,13 +1127,21 @@ export abstract class CloudProvider<TEvent, TMarker>
                   streamed
                 );
                 delete streamed.__marker__;
-                return streamed as T;
+                return {
+                  item: streamed as T,
+                  done: matched.size === matchers.length,
+                };
               })
             )
-            .subscribe((item) => {
-              this.logger.debug?.(`[${this.id}] Store operation completed`);
-              subscriber.next(item);
-              subscriber.complete();
+            .subscribe({
+              next: ({ item, done }) => {
+                subscriber.next(item);
+                if (done) {
+                  this.logger.debug?.(`[${this.id}] Store operation completed`);
+                  subscriber.complete();
+                }
+              },
+              error: (err) => subscriber.error(err),
             });
         });
 
@@ -465,10 +1158,72 @@ export abstract class CloudProvider<TEvent, TMarker>
     });
   }
 
+  public remove<T>(marker: unknown): Observable<T> {
+    this.logger.debug?.(`[${this.id}] Starting remove operation for:`, marker);
+
+    return new Observable<T>((subscriber) => {
+      let removal: Subscription | undefined;
+      let resolved: TMarker | undefined;
+
+      const match = merge(this.expired(), this.removed())
+        .pipe(
+          filter(
+            (event) => resolved !== undefined && this.marker(event) === resolved
+          ),
+          take(1),
+          map((event) => this.unmarshall<T>(event))
+        )
+        .subscribe((item) => {
+          this.logger.debug?.(`[${this.id}] Remove operation completed`);
+          subscriber.next(item);
+          subscriber.complete();
+        });
+
+      const start = (): void => {
+        removal = this._resolve(marker)
+          .pipe(
+            concatMap((target) => {
+              resolved = target;
+              return target === undefined ? of(false) : this._remove(target);
+            })
+          )
+          .subscribe({
+            next: (removed) => {
+              if (!removed) {
+                this.logger.debug?.(
+                  `[${this.id}] Nothing to remove for marker:`,
+                  marker
+                );
+                subscriber.complete();
+              }
+            },
+            error: (err) => subscriber.error(err),
+          });
+      };
+
+      this.events.once('start', start);
+      const stream = this.tail(false, false)
+        .pipe(takeUntil(fromEvent(this.events, 'start')))
+        .subscribe();
+
+      return () => {
+        this.events.off('start', start);
+        match.unsubscribe();
+        stream.unsubscribe();
+        removal?.unsubscribe();
+      };
+    });
+  }
+
+  public marker(event: TEvent): unknown {
+    return this._unmarshall(event).__marker__;
+  }
+
   public unmarshall<T>(event: TEvent): T {
     const unmarshalled = this._unmarshall<T>(event);
     delete unmarshalled.__marker__;
     delete unmarshalled.__expires;
+    delete unmarshalled.__emits;
     return unmarshalled;
   }
 }
@@ -0,0 +1 @@
+export { File, FileOptions } from './provider';
@@ -0,0 +1,407 @@
+import {
+  appendFileSync,
+  closeSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
+import { join } from 'path';
+import {
+  Observable,
+  defer,
+  fromEvent,
+  map,
+  of,
+  retry,
+  switchMap,
+  takeUntil,
+  throwError,
+  timer,
+} from 'rxjs';
+import {
+  CloudProvider,
+  CloudOptions,
+  decodeCursor,
+  encodeCursor,
+  Expireable,
+  Filter,
+  FatalError,
+  Matcher,
+  RetryError,
+  Snapshot,
+  SnapshotOptions,
+  Streamed,
+} from '../base';
+import { Checkpoint } from '../../checkpoints';
+import { random } from 'timeflake';
+
+const SHARD_ID = 'file';
+const NEWLINE = 0x0a;
+
+export type FileOptions = CloudOptions & {
+  directory?: string; // Directory holding the log, Default: `.cloudrx` in the working directory
+  pollInterval?: number; // Tail polling interval in milliseconds
+};
+
+/** A line of the log, as written */
+type Line = {
+  key: string;
+  data: unknown;
+  expires?: number; // Like the DynamoDB TTL attribute, in seconds
+  removes?: number; // Offset of the record this tombstone removes
+};
+
+/** Where a line is in the log */
+type Span = {
+  offset: number; // Byte offset of the line
+  length: number; // Byte length of the line, including the newline
+};
+
+/** A line of the log, as read */
+type FileRecord = Line & Span;
+
+/** A key's current record, as indexed */
+type Indexed = Span & { expires?: number };
+
+/**
+ * Append-only JSONL provider for local and single-host deployments.
+ *
+ * Every store appends a line to `{directory}/{namespace}-{id}.jsonl`, and
+ * every removal appends a tombstone line referencing the removed line's
+ * offset, which is the record's marker. Streams tail the file by polling,
+ * so several processes on the same host can share a log.
+ *
+ * The log is never compacted.
+ */
+export class File extends CloudProvider<FileRecord, number> {
+  private _directory: string;
+  private _pollInterval: number;
+  // Current records by key, up to the `_indexed` byte offset of the log
+  private _index = new Map<string, Indexed>();
+  private _indexed = 0;
+
+  constructor(id: string, opts?: FileOptions) {
+    super(id, opts);
+    this._directory = opts?.directory || join(process.cwd(), '.cloudrx');
+    this._pollInterval = opts?.pollInterval || 1000;
+  }
+
+  get path(): string {
+    return join(this._directory, `${this.namespace}-${this.id}.jsonl`);
+  }
+
+  get pollInterval(): number {
+    return this._pollInterval;
+  }
+
+  protected _init(): Observable<this> {
+    return defer(() => {
+      this.logger.debug?.(`[${this.id}] Opening log at ${this.path}`);
+      mkdirSync(this._directory, { recursive: true });
+      // Create the log if it doesn't exist, without truncating it
+      closeSync(openSync(this.path, 'a'));
+      return of(this);
+    });
+  }
+
+  /**
+   * Read complete lines starting at a byte offset. A trailing partial line
+   * (one still being written) is left for the next read.
+   */
+  private read(from: number): FileRecord[] {
+    const fd = openSync(this.path, 'r');
+    try {
+      const size = fstatSync(fd).size;
+      if (size <= from) {
+        return [];
+      }
+
+      const buffer = Buffer.alloc(size - from);
+      readSync(fd, buffer, 0, buffer.length, from);
+
+      const records: FileRecord[] = [];
+      let start = 0;
+      let end = buffer.indexOf(NEWLINE, start);
+      while (end !== -1) {
+        const line = buffer.subarray(start, end).toString('utf8');
+        if (line.trim()) {
+          records.push({
+            ...(JSON.parse(line) as Line),
+            offset: from + start,
+            length: end - start + 1,
+          });
+        }
+        start = end + 1;
+        end = buffer.indexOf(NEWLINE, start);
+      }
+      return records;
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Read the line at a span of the log.
+   */
+  private line({ offset, length }: Span): FileRecord {
+    const fd = openSync(this.path, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      readSync(fd, buffer, 0, length, offset);
+      return {
+        ...(JSON.parse(buffer.toString('utf8')) as Line),
+        offset,
+        length,
+      };
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Current records by key, newest last: later lines for the same key
+   * replace earlier ones, and tombstones remove them. Only the lines
+   * appended since the last call are read, and records are indexed by
+   * their span, so they are read again only when needed.
+   */
+  private current(): Map<string, Indexed> {
+    const records = this.read(this._indexed);
+    records.forEach(({ key, offset, length, expires, removes }) => {
+      if (removes === undefined) {
+        // Re-insert so that iteration order follows the latest write
+        this._index.delete(key);
+        this._index.set(
+          key,
+          expires ? { offset, length, expires } : { offset, length }
+        );
+      } else if (this._index.get(key)?.offset === removes) {
+        this._index.delete(key);
+      }
+    });
+
+    const last = records[records.length - 1];
+    if (last) {
+      this._indexed = last.offset + last.length;
+    }
+    return this._index;
+  }
+
+  private append(line: Line): void {
+    appendFileSync(this.path, `${JSON.stringify(line)}\n`);
+  }
+
+  protected _stream(
+    all: boolean,
+    checkpoint?: Checkpoint
+  ): Observable<FileRecord[]> {
+    const positions$ = checkpoint ? checkpoint.positions() : of({});
+
+    return positions$.pipe(
+      switchMap((positions: { [SHARD_ID]?: string }) => {
+        const resume = positions[SHARD_ID];
+        let position = resume
+          ? Number(resume)
+          : all
+            ? 0
+            : statSync(this.path).size;
+
+        this.logger.debug?.(
+          `[${this.id}] Tailing ${this.path} from offset ${position}`
+        );
+
+        // Poll for new lines, emitting an empty batch when there are none
+        return timer(0, this.pollInterval).pipe(
+          takeUntil(fromEvent(this.signal, 'abort')),
+          map(() => {
+            const records = this.read(position);
+            const last = records[records.length - 1];
+            if (last) {
+              position = last.offset + last.length;
+            }
+            return records;
+          })
+        );
+      }),
+      map((records) => {
+        const last = records[records.length - 1];
+        if (checkpoint && last) {
+          checkpoint.stage(SHARD_ID, `${last.offset + last.length}`);
+        }
+        return records;
+      })
+    );
+  }
+
+  protected _snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>> {
+    return defer(() => {
+      const { limit, order = 'desc', cursor } = options;
+      const now = CloudProvider.TIME();
+      const after =
+        cursor !== undefined ? decodeCursor<number>(cursor) : undefined;
+
+      // The index iterates in write order, which is ascending offset order
+      const spans = [...this.current().values()];
+      if (order === 'desc') {
+        spans.reverse();
+      }
+      const remaining = spans.filter(
+        ({ offset, expires }) =>
+          // Expired records may not have been removed yet
+          (!expires || expires > now) &&
+          (after === undefined ||
+            (order === 'asc' ? offset > after : offset < after))
+      );
+
+      // Only the lines of the page are read
+      const items: T[] = [];
+      let read = 0;
+      for (const span of remaining) {
+        if (limit !== undefined && items.length >= limit) {
+          break;
+        }
+        read++;
+
+        const item = this._unmarshall<T>(this.line(span));
+        if (this.scheduled(item)) {
+          continue;
+        }
+        delete item.__marker__;
+        delete item.__expires;
+        delete item.__emits;
+        if (this.matches(item as T, filter)) {
+          items.push(item as T);
+        }
+      }
+
+      const snapshot: Snapshot<T> = { items };
+      const last = remaining[read - 1];
+      if (last && read < remaining.length) {
+        snapshot.cursor = encodeCursor(last.offset);
+      }
+      return of(snapshot);
+    });
+  }
+
+  protected _store<T>(
+    item: Expireable<T>,
+    hashFn: (value: T) => string = () => random().base62,
+    matched?: (event: FileRecord) => void
+  ): Observable<Matcher<FileRecord>> {
+    return defer(() => {
+      const key = hashFn(item);
+      this.logger.debug?.(`[${this.id}] Appending item with key ${key}:`, item);
+
+      const line: Line = { key, data: this.codec.encode(item, key) };
+      if (item.__expires) {
+        line.expires = item.__expires;
+      }
+      this.append(line);
+
+      const matcher: Matcher<FileRecord> = (event) => {
+        if (event.key === key && event.removes === undefined) {
+          matched?.(event);
+          return true;
+        }
+        return false;
+      };
+      return of(matcher);
+    });
+  }
+
+  /**
+   * Records are marked by byte offset, so a key resolves to the offset of
+   * the key's current record.
+   */
+  protected override _resolve(marker: unknown): Observable<number | undefined> {
+    return defer(() =>
+      of(
+        typeof marker === 'number'
+          ? marker
+          : this.current().get(`${marker}`)?.offset
+      )
+    );
+  }
+
+  protected _remove(marker: number): Observable<boolean> {
+    return defer(() =>
+      this.locked(() => {
+        const span = [...this.current().values()].find(
+          ({ offset }) => offset === marker
+        );
+        if (!span) {
+          return false;
+        }
+        const record = this.line(span);
+
+        this.logger.debug?.(`[${this.id}] Appending tombstone for ${marker}`);
+        // Tombstones carry the data so removals can be unmarshalled
+        const { offset: _offset, length: _length, ...line } = record;
+        this.append({ ...line, removes: marker });
+        return true;
+      })
+    );
+  }
+
+  /**
+   * Run work while holding a lock file, so that processes sharing the log
+   * don't both remove the same record.
+   */
+  private locked<R>(work: () => R): Observable<R> {
+    const lock = `${this.path}.lock`;
+
+    const attempt = defer(() => {
+      try {
+        closeSync(openSync(lock, 'wx'));
+      } catch (error) {
+        if (!(error instanceof Error && 'code' in error)) {
+          throw error;
+        }
+        if (error.code !== 'EEXIST') {
+          throw new FatalError(`Unable to lock ${lock}: ${error}`);
+        }
+        // A lock left behind by a crashed process is released after a while
+        if (Date.now() - statSync(lock).mtimeMs > 5000) {
+          unlinkSync(lock);
+        }
+        throw new RetryError(`Log is locked: ${lock}`);
+      }
+
+      try {
+        return of(work());
+      } finally {
+        unlinkSync(lock);
+      }
+    });
+
+    return attempt.pipe(
+      retry({
+        count: 500,
+        delay: (error) =>
+          error instanceof RetryError ? timer(10) : throwError(() => error),
+      })
+    );
+  }
+
+  protected _isRemoval(event: FileRecord): boolean {
+    return event.removes !== undefined;
+  }
+
+  protected _unmarshall<T>(event: FileRecord): Streamed<Expireable<T>, number> {
+    const result: Streamed<Expireable<T>, number> = {
+      ...(this.codec.decode(event.data, event.key) as Expireable<T>),
+      __marker__: event.removes ?? event.offset,
+    };
+
+    if (event.expires) {
+      result.__expires = event.expires;
+    }
+
+    return result;
+  }
+}
@@ -2,5 +2,15 @@
 export * from './base';
 
 // Export specific provider implementations
-export { DynamoDB, DynamoDBOptions } from './aws';
+export { DynamoDB, DynamoDBOptions, ItemTooLargeError } from './aws';
 export { Memory, MemoryOptions as MemoryProviderOptions } from './memory';
+export { File, FileOptions as FileProviderOptions } from './file';
+export { SQLite, SQLiteOptions, SQLiteRecord } from './sqlite';
+export {
+  Redis,
+  RedisOptions,
+  RedisRecord,
+  RedisClient,
+  RedisScripts,
+  RedisStreamEntry,
+} from './redis';
@@ -1,10 +1,13 @@
 import {
   Observable,
-  ReplaySubject,
+  Subject,
+  concat,
+  defer,
   fromEvent,
   interval,
   map,
   of,
+  switchMap,
   timer,
 } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
@@ -15,9 +18,14 @@ import {
   CloudOptions,
   Expireable,
   Filter,
+  Snapshot,
+  SnapshotOptions,
 } from '../base';
+import { Checkpoint } from '../../checkpoints';
 import { random } from 'timeflake';
 
+const SHARD_ID = 'memory';
+
 type MemoryDelays = {
   init?: number; // Initialization delay in milliseconds
   emission?: number; // Emission delay in milliseconds
@@ -26,6 +34,8 @@ type MemoryDelays = {
 
 export type MemoryOptions = CloudOptions & {
   delays?: MemoryDelays; // Optional delays for initialization, emission, and storage
+  retention?: number; // Stream retention in milliseconds, Default: 24 hours (like DynamoDB Streams)
+  idempotent?: boolean; // Only store keys that aren't stored yet, resolving to the stored item otherwise
 };
 
 type Data = {
@@ -35,12 +45,21 @@ type Data = {
 type Record = {
   id: string;
   data: Data;
+  expires?: number; // Like the DynamoDB TTL attribute, in seconds
+  sequence?: number;
+  timestamp?: number;
+  removed?: boolean;
 };
 
 export class Memory extends CloudProvider<Record, Record['id']> {
-  private _all = new ReplaySubject<Record[]>();
-  private _latest = new ReplaySubject<Record[]>(1);
+  // Current records, as a table would hold them
+  private _records = new Map<Record['id'], Record>();
+  // Every change within the retention period, as a stream would hold them
+  private _log: Record[] = [];
+  private _live = new Subject<Record[]>();
+  private _sequence = 0;
   private _initialized = false;
+  private _retention: number;
 
   private delays: Required<MemoryDelays> = {
     init: 2000, // Default initialization delay
@@ -59,6 +78,7 @@ export class Memory extends CloudProvider<Record, Record['id']> {
       emission: this.options?.delays?.emission ?? this.delays.emission,
       storage: this.options?.delays?.storage ?? this.delays.storage,
     };
+    this._retention = this.options?.retention ?? 24 * 60 * 60 * 1000;
   }
 
   protected _init(): Observable<this> {
@@ -79,34 +99,77 @@ export class Memory extends CloudProvider<Record, Record['id']> {
           map(() => {
             this.logger.debug?.(`[${this.id}] Initialization complete`);
             this._initialized = true;
+            this.sweeper();
             subscriber.next(this);
             subscriber.complete();
           })
         )
         .subscribe();
 
-      this.logger.debug?.(
-        `[${this.id}] Starting emission interval every ${this.delays.emission}ms`
-      );
-      const emission = interval(this.delays.emission)
-        .pipe(
-          takeUntil(fromEvent(this.signal, 'abort')),
-          map(() => {
-            this._all.next([]);
-            this._latest.next([]);
-          })
-        )
-        .subscribe();
-
       return () => {
         this.logger.debug?.(`[${this.id}] Init cleanup`);
         initialization.unsubscribe();
-        emission.unsubscribe();
       };
     });
   }
 
-  protected _stream(all: boolean): Observable<Record[]> {
+  /**
+   * Periodically remove expired records and trim the stream, emitting an
+   * empty batch on each tick like an idle stream poll.
+   */
+  private sweeper(): void {
+    this.logger.debug?.(
+      `[${this.id}] Starting emission interval every ${this.delays.emission}ms`
+    );
+    interval(this.delays.emission)
+      .pipe(takeUntil(fromEvent(this.signal, 'abort')))
+      .subscribe(() => {
+        this.sweep();
+        this._live.next([]);
+      });
+  }
+
+  private sweep(): void {
+    const now = CloudProvider.TIME();
+    this._records.forEach((record) => {
+      if (record.expires && record.expires <= now) {
+        this.logger.debug?.(
+          `[${this.id}] Sweeping expired record ${record.id}`
+        );
+        this.delete(record);
+      }
+    });
+
+    const horizon = Date.now() - this._retention;
+    const retained = this._log.findIndex(
+      (record) => (record.timestamp ?? 0) >= horizon
+    );
+    this._log.splice(0, retained === -1 ? this._log.length : retained);
+  }
+
+  /**
+   * Append a change to the stream and deliver it to live subscribers.
+   */
+  private append(record: Record): Record {
+    const event: Record = {
+      ...record,
+      sequence: ++this._sequence,
+      timestamp: Date.now(),
+    };
+    this._log.push(event);
+    this._live.next([event]);
+    return event;
+  }
+
+  private delete(record: Record): void {
+    this._records.delete(record.id);
+    this.append({ ...record, removed: true });
+  }
+
+  protected _stream(
+    all: boolean,
+    checkpoint?: Checkpoint
+  ): Observable<Record[]> {
     return new Observable<Record[]>((subscriber) => {
       if (!this._initialized) {
         this.logger.debug?.(
@@ -118,25 +181,48 @@ export class Memory extends CloudProvider<Record, Record['id']> {
         return;
       }
 
-      const streamType = all ? 'all' : 'latest';
-      const stream = all ? this._all : this._latest;
-
-      const subscription = stream.subscribe({
-        next: (records) => {
-          this.logger.debug?.(
-            `[${this.id}] ${streamType} stream emitted ${records.length} records: ${records.map((r) => r.id).join(', ')}`
-          );
-          subscriber.next(records);
-        },
-        error: (error) => {
-          this.logger.debug?.(
-            `[${this.id}] ${streamType} stream error:`,
-            error
-          );
-          subscriber.error(error);
-        },
-        complete: () => subscriber.complete(),
-      });
+      const positions$ = checkpoint ? checkpoint.positions() : of({});
+
+      const subscription = positions$
+        .pipe(
+          switchMap((positions: { [SHARD_ID]?: string }) => {
+            const position = positions[SHARD_ID];
+            if (position) {
+              this.logger.debug?.(
+                `[${this.id}] Resuming stream after sequence ${position}`
+              );
+            }
+            // Replay what is still retained (after the checkpoint, or from
+            // the start like TRIM_HORIZON), then continue live. The initial
+            // batch is emitted even when empty, so the stream starts at once.
+            const replay = position
+              ? this._log.filter(
+                  (record) => (record.sequence ?? 0) > Number(position)
+                )
+              : all
+                ? [...this._log]
+                : [];
+            return concat(of(replay), this._live);
+          })
+        )
+        .subscribe({
+          next: (records) => {
+            this.logger.debug?.(
+              `[${this.id}] stream emitted ${records.length} records: ${records.map((r) => r.id).join(', ')}`
+            );
+            const sequence = records[records.length - 1]?.sequence;
+            if (checkpoint && sequence) {
+              checkpoint.stage(SHARD_ID, `${sequence}`);
+            }
+
+            subscriber.next(records);
+          },
+          error: (error) => {
+            this.logger.debug?.(`[${this.id}] stream error:`, error);
+            subscriber.error(error);
+          },
+          complete: () => subscriber.complete(),
+        });
 
       return () => {
         subscription.unsubscribe();
@@ -144,35 +230,38 @@ export class Memory extends CloudProvider<Record, Record['id']> {
     });
   }
 
-  protected _snapshot<T>(filter: Filter<T>): Observable<T[]> {
-    // HACK: get _all._buffer directly
-    const all = this._all as unknown as { _buffer: Record[][] };
-
-    return of(
-      all._buffer.reverse().flatMap((records) =>
-        records
-          .map((record) => {
-            const unmarshalled = this._unmarshall(record);
-            delete unmarshalled.__marker__;
-            delete unmarshalled.__expires;
-            return unmarshalled as T;
-          })
-          .filter((item) =>
-            Object.entries(filter).reduce(
-              (matches, [key, value]) =>
-                matches && item[key as keyof T] === value,
-              true
-            )
-          )
-      )
-    );
+  protected _snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>> {
+    return defer(() => {
+      const now = CloudProvider.TIME();
+
+      const entries = [...this._records.values()]
+        // Expired records may not have been swept yet
+        .filter((record) => !record.expires || record.expires > now)
+        .map((record) => ({
+          position: record.sequence ?? 0,
+          item: this._unmarshall<T>(record),
+        }))
+        .filter(({ item }) => !this.scheduled(item))
+        .map(({ position, item }) => {
+          delete item.__marker__;
+          delete item.__expires;
+          delete item.__emits;
+          return { position, item: item as T };
+        })
+        .filter(({ item }) => this.matches(item, filter));
+
+      return of(this.page(entries, options, (a, b) => a - b));
+    });
   }
 
   protected _store<T>(
     item: Expireable<T>,
     hashFn: (value: T) => string = () => random().base62,
     matched?: (event: Record) => void
-  ): Observable<(event: Record) => boolean> {
+  ): Observable<Matcher<Record>> {
     return new Observable<Matcher<Record>>((subscriber) => {
       if (!this._initialized) {
         this.logger.debug?.(`[${this.id}] Store requested but not initialized`);
@@ -186,7 +275,7 @@ export class Memory extends CloudProvider<Record, Record['id']> {
       this.logger.debug?.(`[${this.id}] Storing item with id ${id}:`, item);
 
       const data: Data = {
-        payload: JSON.stringify(item),
+        payload: JSON.stringify(this.codec.encode(item, id)),
       };
 
       const record: Record = {
@@ -194,23 +283,45 @@ export class Memory extends CloudProvider<Record, Record['id']> {
         data,
       };
 
+      if (item.__expires) {
+        record.expires = item.__expires;
+      }
+
       const emission = timer(this.delays.storage)
         .pipe(
           takeUntil(fromEvent(this.signal, 'abort')),
           map(() => {
-            this.logger.debug?.(
-              `[${this.id}] Emitting record ${id} to ReplaySubjects`
-            );
-            this._all.next([record]);
-            this._latest.next([record]);
+            // Like a conditional put, an idempotent store leaves an item
+            // that is already stored, unless it has expired
+            const stored = this.options?.idempotent
+              ? this._records.get(id)
+              : undefined;
+            const existing =
+              stored &&
+              (!stored.expires || stored.expires > CloudProvider.TIME())
+                ? stored
+                : undefined;
+            let written: Record;
+            if (existing) {
+              this.logger.debug?.(`[${this.id}] Record ${id} already stored`);
+              written = existing;
+            } else {
+              this.logger.debug?.(`[${this.id}] Emitting record ${id}`);
+              written = this.append(record);
+              this._records.set(id, written);
+            }
 
-            const matcher = (event: Record): boolean => {
-              if (event.id === id) {
+            // Match this write's own event, not an earlier one of the key
+            const matcher: Matcher<Record> = (event) => {
+              if (event.id === id && event.sequence === written.sequence) {
                 matched?.(event);
                 return true;
               }
               return false;
             };
+            if (existing) {
+              matcher.existing = existing;
+            }
             subscriber.next(matcher);
             subscriber.complete();
           })
@@ -223,11 +334,58 @@ export class Memory extends CloudProvider<Record, Record['id']> {
     });
   }
 
+  protected _remove(marker: Record['id']): Observable<boolean> {
+    return new Observable<boolean>((subscriber) => {
+      if (!this._initialized) {
+        this.logger.debug?.(
+          `[${this.id}] Remove requested but not initialized`
+        );
+        subscriber.error(
+          new Error('Provider not initialized - call init() first')
+        );
+        return;
+      }
+
+      const emission = timer(this.delays.storage)
+        .pipe(
+          takeUntil(fromEvent(this.signal, 'abort')),
+          map(() => {
+            const record = this._records.get(marker);
+            if (!record) {
+              subscriber.next(false);
+              subscriber.complete();
+              return;
+            }
+
+            this.logger.debug?.(
+              `[${this.id}] Emitting removal of record ${marker}`
+            );
+            this.delete(record);
+
+            subscriber.next(true);
+            subscriber.complete();
+          })
+        )
+        .subscribe();
+
+      return () => {
+        emission.unsubscribe();
+      };
+    });
+  }
+
+  protected _isRemoval(event: Record): boolean {
+    return !!event.removed;
+  }
+
   protected _unmarshall<T>(
     event: Record
   ): Streamed<Expireable<T>, Record['id']> {
     const marker = event.id;
-    const item = JSON.parse(event.data.payload) as Expireable<T>;
+    const item = this.codec.decode(
+      JSON.parse(event.data.payload),
+      marker
+    ) as Expireable<T>;
 
     return {
       ...item,
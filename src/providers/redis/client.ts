@@ -0,0 +1,121 @@
+/** A stream entry: its ID and its field/value pairs */
+export type RedisStreamEntry = [id: string, fields: Record<string, string>];
+
+/**
+ * The subset of Redis commands used by the {@link Redis} provider.
+ *
+ * Adapt a client library (ioredis, node-redis, ...) to this interface, or
+ * use an in-memory implementation in tests.
+ */
+export interface RedisClient {
+  /** XREAD COUNT count STREAMS key id, returning entries after `id` */
+  xread(key: string, id: string, count: number): Promise<RedisStreamEntry[]>;
+  /** XREVRANGE key end start COUNT count */
+  xrevrange(
+    key: string,
+    end: string,
+    start: string,
+    count: number
+  ): Promise<RedisStreamEntry[]>;
+
+  hget(key: string, field: string): Promise<string | null>;
+  hmget(key: string, fields: string[]): Promise<(string | null)[]>;
+
+  zrangebyscore(key: string, min: number, max: number): Promise<string[]>;
+  /** ZRANGEBYLEX key min max, with LIMIT 0 count when a count is given */
+  zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    count?: number
+  ): Promise<string[]>;
+  /** ZREVRANGEBYLEX key max min, with LIMIT 0 count when a count is given */
+  zrevrangebylex(
+    key: string,
+    max: string,
+    min: string,
+    count?: number
+  ): Promise<string[]>;
+  zrem(key: string, member: string): Promise<number>;
+
+  /**
+   * EVAL script numkeys key [key ...] arg [arg ...], returning the reply.
+   * Stores and removals run as one of the {@link RedisScripts}, so that the
+   * stream and the hashes and sorted sets indexing it change atomically.
+   */
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+/**
+ * The position of an entry ID in the positions set: its milliseconds and
+ * sequence number zero-padded, so that positions sort lexically by ID.
+ */
+const POSITION = `
+local function position(id)
+  local ms, seq = string.match(id, '^(%d+)-(%d+)$')
+  return string.rep('0', 20 - #ms) .. ms .. '-' .. string.rep('0', 20 - #seq) .. seq
+end
+`;
+
+/**
+ * The Lua scripts the {@link Redis} provider runs with EVAL, each given the
+ * stream, items hash, keys hash, expires sorted set and positions sorted
+ * set as KEYS.
+ */
+export const RedisScripts = {
+  /**
+   * Append a store entry and index it as the key's current item, replacing
+   * the previous one. ARGV: key, item (JSON), expiry ('' for none), minimum
+   * ID to trim the stream to ('' to keep it all), then the entry's fields.
+   * Returns the entry ID.
+   */
+  store: `${POSITION}
+local id = redis.call('XADD', KEYS[1], '*', unpack(ARGV, 5))
+redis.call('HSET', KEYS[2], id, ARGV[2])
+redis.call('ZADD', KEYS[5], 0, position(id))
+if ARGV[3] ~= '' then
+  redis.call('ZADD', KEYS[4], ARGV[3], id)
+end
+local previous = redis.call('HGET', KEYS[3], ARGV[1])
+redis.call('HSET', KEYS[3], ARGV[1], id)
+if previous and previous ~= id then
+  redis.call('HDEL', KEYS[2], previous)
+  redis.call('ZREM', KEYS[4], previous)
+  redis.call('ZREM', KEYS[5], position(previous))
+end
+if ARGV[4] ~= '' then
+  redis.call('XTRIM', KEYS[1], 'MINID', ARGV[4])
+end
+return id
+`,
+  /**
+   * Remove a current item, appending a tombstone entry that carries its
+   * data. ARGV: the item's entry ID, minimum ID to trim the stream to ('' to
+   * keep it all). Returns 1 if the item was removed, 0 if it wasn't stored.
+   */
+  remove: `${POSITION}
+local json = redis.call('HGET', KEYS[2], ARGV[1])
+if not json then
+  return 0
+end
+local item = cjson.decode(json)
+local fields = {'type', 'remove', 'key', item.key, 'data', item.data}
+if item.expires then
+  table.insert(fields, 'expires')
+  table.insert(fields, string.format('%d', item.expires))
+end
+table.insert(fields, 'removes')
+table.insert(fields, ARGV[1])
+redis.call('HDEL', KEYS[2], ARGV[1])
+redis.call('XADD', KEYS[1], '*', unpack(fields))
+redis.call('ZREM', KEYS[4], ARGV[1])
+redis.call('ZREM', KEYS[5], position(ARGV[1]))
+if redis.call('HGET', KEYS[3], item.key) == ARGV[1] then
+  redis.call('HDEL', KEYS[3], item.key)
+end
+if ARGV[2] ~= '' then
+  redis.call('XTRIM', KEYS[1], 'MINID', ARGV[2])
+end
+return 1
+`,
+} as const;
@@ -0,0 +1,2 @@
+export { RedisClient, RedisScripts, RedisStreamEntry } from './client';
+export { Redis, RedisOptions, RedisRecord } from './provider';
@@ -0,0 +1,407 @@
+import {
+  EMPTY,
+  Observable,
+  catchError,
+  concatMap,
+  defer,
+  filter,
+  from,
+  fromEvent,
+  interval,
+  map,
+  mergeMap,
+  of,
+  switchMap,
+  takeUntil,
+  timer,
+  toArray,
+} from 'rxjs';
+import {
+  CloudProvider,
+  CloudOptions,
+  decodeCursor,
+  encodeCursor,
+  Expireable,
+  FatalError,
+  Filter,
+  Matcher,
+  Snapshot,
+  SnapshotOptions,
+  Streamed,
+} from '../base';
+import { Checkpoint } from '../../checkpoints';
+import { RedisClient, RedisScripts } from './client';
+import { random } from 'timeflake';
+
+const SHARD_ID = 'redis';
+const BATCH_SIZE = 1000;
+
+export type RedisOptions = CloudOptions & {
+  client?: RedisClient; // Required
+  pollInterval?: number; // Stream polling interval in milliseconds
+  sweepInterval?: number; // TTL sweeper interval in milliseconds
+  retention?: number; // Stream retention in milliseconds, Default: 24 hours (like DynamoDB Streams)
+};
+
+/** A stream entry, as delivered by the provider */
+export type RedisRecord = {
+  id: string;
+  fields: Record<string, string>;
+};
+
+/** A current item, as held in the items hash */
+type Item = {
+  key: string;
+  data: string;
+  expires?: number;
+};
+
+/**
+ * The position of a stream ID (`{milliseconds}-{sequence}`) in the
+ * positions set, zero-padded so that positions sort lexically by ID.
+ */
+const position = (id: string): string =>
+  id
+    .split('-')
+    .map((part) => part.padStart(20, '0'))
+    .join('-');
+
+/**
+ * The stream ID at a position of the positions set.
+ */
+const marker = (position: string): string =>
+  position
+    .split('-')
+    .map((part) => part.replace(/^0+(?=\d)/, ''))
+    .join('-');
+
+/**
+ * Redis Streams provider.
+ *
+ * Stores are appended to the `{<namespace>-<id>}` stream with XADD, and the
+ * entry ID is the record's marker. Current items are kept in a hash
+ * (`:items`) keyed by marker, with an index from hash key to marker
+ * (`:keys`) so that storing the same key again replaces the item, and a
+ * sorted set of their positions (`:positions`) that snapshots page through.
+ * Removals append a tombstone entry. Expiry is driven by a sorted set
+ * (`:expires`) scored by expiry time, which a sweeper polls. Stores and removals run as
+ * Lua scripts (see {@link RedisScripts}), so each is atomic, and trim the
+ * stream to its retention period.
+ *
+ * Streams poll with XREAD from `0` (all) or from the latest entry.
+ */
+export class Redis extends CloudProvider<RedisRecord, string> {
+  private _client: RedisClient;
+  private _pollInterval: number;
+  private _sweepInterval: number;
+  private _retention: number;
+
+  constructor(id: string, opts?: RedisOptions) {
+    super(id, opts);
+    if (!opts?.client) {
+      throw new FatalError('A Redis client is required');
+    }
+    this._client = opts.client;
+    this._pollInterval = opts?.pollInterval || 1000;
+    this._sweepInterval = opts?.sweepInterval || 1000;
+    this._retention = opts?.retention ?? 24 * 60 * 60 * 1000;
+  }
+
+  get client(): RedisClient {
+    return this._client;
+  }
+
+  /**
+   * The stream's key, a hash tag that the keys indexing it start with, so
+   * that Redis Cluster keeps them in one slot for the scripts.
+   */
+  get streamKey(): string {
+    return `{${this.namespace}-${this.id}}`;
+  }
+
+  get pollInterval(): number {
+    return this._pollInterval;
+  }
+
+  private get itemsKey(): string {
+    return `${this.streamKey}:items`;
+  }
+
+  private get keysKey(): string {
+    return `${this.streamKey}:keys`;
+  }
+
+  private get expiresKey(): string {
+    return `${this.streamKey}:expires`;
+  }
+
+  private get positionsKey(): string {
+    return `${this.streamKey}:positions`;
+  }
+
+  /** The keys every script is given */
+  private get scriptKeys(): string[] {
+    return [
+      this.streamKey,
+      this.itemsKey,
+      this.keysKey,
+      this.expiresKey,
+      this.positionsKey,
+    ];
+  }
+
+  /** The oldest stream ID within the retention period */
+  private get horizon(): string {
+    return `${Date.now() - this._retention}-0`;
+  }
+
+  protected _init(): Observable<this> {
+    return defer(() => {
+      this.logger.debug?.(
+        `[${this.id}] Initializing Redis provider on ${this.streamKey}`
+      );
+      this.sweeper();
+      return of(this);
+    });
+  }
+
+  /**
+   * Periodically remove items past their expiry. Each expired member is
+   * claimed with ZREM, so only one process sharing the stream removes it.
+   */
+  private sweeper(): void {
+    interval(this._sweepInterval)
+      .pipe(
+        takeUntil(fromEvent(this.signal, 'abort')),
+        concatMap(() =>
+          from(
+            this.client.zrangebyscore(this.expiresKey, 0, CloudProvider.TIME())
+          ).pipe(
+            mergeMap((markers) => markers),
+            concatMap((marker) =>
+              from(this.client.zrem(this.expiresKey, marker)).pipe(
+                filter((claimed) => claimed > 0),
+                concatMap(() => this._remove(marker))
+              )
+            ),
+            toArray(),
+            catchError((error) => {
+              this.logger.warn?.(`[${this.id}] Failed to sweep:`, error);
+              return EMPTY;
+            })
+          )
+        )
+      )
+      .subscribe();
+  }
+
+  protected _stream(
+    all: boolean,
+    checkpoint?: Checkpoint
+  ): Observable<RedisRecord[]> {
+    const positions$ = checkpoint ? checkpoint.positions() : of({});
+
+    return positions$.pipe(
+      switchMap((positions: { [SHARD_ID]?: string }) => {
+        const resume = positions[SHARD_ID];
+        if (resume || all) {
+          return of(resume || '0');
+        }
+        // Resolve `$` to the latest entry so nothing is missed between polls
+        return from(this.client.xrevrange(this.streamKey, '+', '-', 1)).pipe(
+          map(([latest]) => latest?.[0] ?? '0')
+        );
+      }),
+      switchMap((start) => {
+        let position = start;
+        this.logger.debug?.(
+          `[${this.id}] Reading ${this.streamKey} after ${position}`
+        );
+
+        // Poll for new entries, emitting an empty batch when there are none
+        return timer(0, this.pollInterval).pipe(
+          takeUntil(fromEvent(this.signal, 'abort')),
+          concatMap(() =>
+            from(this.client.xread(this.streamKey, position, BATCH_SIZE))
+          ),
+          map((entries) => {
+            const last = entries[entries.length - 1];
+            if (last) {
+              position = last[0];
+            }
+            return entries.map(([id, fields]): RedisRecord => ({ id, fields }));
+          })
+        );
+      }),
+      map((records) => {
+        const last = records[records.length - 1];
+        if (checkpoint && last) {
+          checkpoint.stage(SHARD_ID, last.id);
+        }
+        return records;
+      })
+    );
+  }
+
+  protected _snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>> {
+    const { limit, order = 'desc', cursor } = options;
+
+    return defer(() => {
+      // Seek past the cursor, fetching one more position than requested to
+      // tell if there are more
+      const after =
+        cursor !== undefined
+          ? `(${position(decodeCursor<string>(cursor))}`
+          : undefined;
+      const count = limit !== undefined ? limit + 1 : undefined;
+      return order === 'asc'
+        ? this.client.zrangebylex(this.positionsKey, after ?? '-', '+', count)
+        : this.client.zrevrangebylex(
+            this.positionsKey,
+            after ?? '+',
+            '-',
+            count
+          );
+    }).pipe(
+      concatMap((positions) => {
+        const markers = positions.map(marker);
+        const page =
+          limit !== undefined ? markers.slice(0, limit) : markers.slice();
+        const items$ = page.length
+          ? from(this.client.hmget(this.itemsKey, page))
+          : of([]);
+
+        return items$.pipe(
+          map((items) => {
+            const now = CloudProvider.TIME();
+
+            const snapshot: Snapshot<T> = {
+              items: items
+                // Removed since its position was read
+                .filter((json): json is string => json !== null)
+                .map((json) => JSON.parse(json) as Item)
+                // Expired items may not have been swept yet
+                .filter((item) => !item.expires || item.expires > now)
+                .map(
+                  ({ key, data }) =>
+                    this.codec.decode(JSON.parse(data), key) as Expireable<T>
+                )
+                .filter((item) => !this.scheduled(item))
+                .map(
+                  ({ __emits: _emits, __expires: _expires, ...item }) =>
+                    item as T
+                )
+                .filter((item) => this.matches(item, filter)),
+            };
+            const last = page[page.length - 1];
+            if (last && page.length < markers.length) {
+              snapshot.cursor = encodeCursor(last);
+            }
+            return snapshot;
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Stream entry fields for a store of an item.
+   */
+  private entry(item: Item): Record<string, string> {
+    const fields: Record<string, string> = {
+      type: 'store',
+      key: item.key,
+      data: item.data,
+    };
+    if (item.expires) {
+      fields.expires = `${item.expires}`;
+    }
+    return fields;
+  }
+
+  protected _store<T>(
+    item: Expireable<T>,
+    hashFn: (value: T) => string = () => random().base62,
+    matched?: (event: RedisRecord) => void
+  ): Observable<Matcher<RedisRecord>> {
+    const key = hashFn(item);
+    const stored: Item = {
+      key,
+      data: JSON.stringify(this.codec.encode(item, key)),
+    };
+    if (item.__expires) {
+      stored.expires = item.__expires;
+    }
+
+    const matcher: Matcher<RedisRecord> = (event) => {
+      if (event.fields.type === 'store' && event.fields.key === key) {
+        matched?.(event);
+        return true;
+      }
+      return false;
+    };
+
+    return defer(() => {
+      this.logger.debug?.(`[${this.id}] Storing item with key ${key}:`, item);
+      return this.client.eval(RedisScripts.store, this.scriptKeys, [
+        key,
+        JSON.stringify(stored),
+        stored.expires ? `${stored.expires}` : '',
+        this.horizon,
+        ...Object.entries(this.entry(stored)).flat(),
+      ]);
+    }).pipe(map(() => matcher));
+  }
+
+  /**
+   * Records are marked by stream entry ID, so anything that isn't the ID
+   * of a current item resolves as a key, to the ID of its current entry.
+   */
+  protected override _resolve(marker: unknown): Observable<string | undefined> {
+    const id = `${marker}`;
+    return defer(() => this.client.hget(this.itemsKey, id)).pipe(
+      concatMap((item) =>
+        item ? of(id) : from(this.client.hget(this.keysKey, id))
+      ),
+      map((resolved) => resolved ?? undefined)
+    );
+  }
+
+  protected _remove(marker: string): Observable<boolean> {
+    return defer(() => {
+      this.logger.debug?.(`[${this.id}] Removing ${marker}`);
+      // Only the process that deletes the item records the removal
+      return this.client.eval(RedisScripts.remove, this.scriptKeys, [
+        marker,
+        this.horizon,
+      ]);
+    }).pipe(map((removed) => Number(removed) > 0));
+  }
+
+  protected _isRemoval(event: RedisRecord): boolean {
+    return event.fields.type === 'remove';
+  }
+
+  protected _unmarshall<T>(
+    event: RedisRecord
+  ): Streamed<Expireable<T>, string> {
+    const { key, data, expires, removes } = event.fields;
+    if (data === undefined) {
+      throw new FatalError(`Invalid Redis entry ${event.id}: missing data`);
+    }
+
+    const result: Streamed<Expireable<T>, string> = {
+      ...(this.codec.decode(JSON.parse(data), key) as Expireable<T>),
+      __marker__: removes ?? event.id,
+    };
+
+    if (expires) {
+      result.__expires = Number(expires);
+    }
+
+    return result;
+  }
+}
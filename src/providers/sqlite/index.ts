@@ -0,0 +1 @@
+export { SQLite, SQLiteOptions, SQLiteRecord } from './provider';
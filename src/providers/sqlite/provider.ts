@@ -0,0 +1,493 @@
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import {
+  Observable,
+  defer,
+  from,
+  fromEvent,
+  interval,
+  map,
+  of,
+  switchMap,
+  takeUntil,
+  timer,
+} from 'rxjs';
+import {
+  clauses,
+  CloudProvider,
+  CloudOptions,
+  decodeCursor,
+  encodeCursor,
+  Expireable,
+  FatalError,
+  Filter,
+  Matcher,
+  Snapshot,
+  SnapshotOptions,
+  Streamed,
+} from '../base';
+import { Checkpoint } from '../../checkpoints';
+import { random } from 'timeflake';
+
+const SHARD_ID = 'sqlite';
+const BATCH_SIZE = 1000;
+
+export type SQLiteOptions = CloudOptions & {
+  path?: string; // Database file, Default: `.cloudrx/{namespace}.sqlite` in the working directory
+  pollInterval?: number; // Stream polling interval in milliseconds
+  sweepInterval?: number; // TTL sweeper interval in milliseconds
+  retention?: number; // Stream retention in milliseconds, Default: 24 hours (like DynamoDB Streams)
+};
+
+/** A row of the stream table */
+export type SQLiteRecord = {
+  seq: number;
+  event: 'INSERT' | 'MODIFY' | 'REMOVE';
+  key: string;
+  data: string;
+  expires: number | null;
+};
+
+/**
+ * Embedded provider built on Node's `node:sqlite` (Node.js >= 22.5).
+ *
+ * Each provider owns an items table, keyed like a DynamoDB range key, and a
+ * stream table that triggers append every insert, update and delete to.
+ * Streams poll the stream table's monotonically increasing rowid, and a
+ * sweeper deletes expired items, which surfaces them as expirations.
+ *
+ * The database may be shared by several processes on the same host.
+ */
+export class SQLite extends CloudProvider<SQLiteRecord, string> {
+  private _path: string;
+  private _pollInterval: number;
+  private _sweepInterval: number;
+  private _retention: number;
+  private _db?: DatabaseSync;
+
+  constructor(id: string, opts?: SQLiteOptions) {
+    super(id, opts);
+    this._path =
+      opts?.path || join(process.cwd(), '.cloudrx', `${this.namespace}.sqlite`);
+    this._pollInterval = opts?.pollInterval || 1000;
+    this._sweepInterval = opts?.sweepInterval || 1000;
+    this._retention = opts?.retention ?? 24 * 60 * 60 * 1000;
+  }
+
+  get path(): string {
+    return this._path;
+  }
+
+  get tableName(): string {
+    return `${this.namespace}-${this.id}`;
+  }
+
+  get streamTableName(): string {
+    return `${this.tableName}-stream`;
+  }
+
+  get pollInterval(): number {
+    return this._pollInterval;
+  }
+
+  get db(): DatabaseSync {
+    if (!this._db) {
+      throw new FatalError('Database is not yet available');
+    }
+    return this._db;
+  }
+
+  private get itemsTable(): string {
+    return `"${this.tableName.replace(/"/g, '""')}"`;
+  }
+
+  private get streamTable(): string {
+    return `"${this.streamTableName.replace(/"/g, '""')}"`;
+  }
+
+  protected _init(): Observable<this> {
+    this.logger.debug?.(`[${this.id}] Initializing SQLite provider...`);
+
+    return from(
+      import('node:sqlite').catch((error: Error) => {
+        throw new FatalError(
+          `node:sqlite is not available (requires Node.js >= 22.5): ${error.message}`
+        );
+      })
+    ).pipe(
+      map(({ DatabaseSync }) => {
+        if (this._path !== ':memory:') {
+          mkdirSync(dirname(this._path), { recursive: true });
+        }
+
+        this.logger.debug?.(`[${this.id}] Opening database at ${this._path}`);
+        const db = new DatabaseSync(this._path);
+        db.exec(`PRAGMA journal_mode = WAL`);
+        db.exec(`PRAGMA busy_timeout = 5000`);
+        this.create(db);
+        this.assert(db);
+
+        this._db = db;
+        this.signal.addEventListener('abort', () => {
+          this.logger.debug?.(`[${this.id}] Closing database`);
+          db.close();
+          delete this._db;
+        });
+
+        this.sweeper();
+        return this;
+      })
+    );
+  }
+
+  /**
+   * Create the items and stream tables, and the triggers that populate the
+   * stream, if they don't exist.
+   */
+  private create(db: DatabaseSync): void {
+    const trigger = (name: string): string =>
+      `"${`${this.tableName}-${name}`.replace(/"/g, '""')}"`;
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.itemsTable} (
+        key TEXT PRIMARY KEY NOT NULL,
+        data TEXT NOT NULL,
+        expires INTEGER,
+        updated INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS ${this.streamTable} (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        event TEXT NOT NULL,
+        key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        expires INTEGER,
+        created INTEGER NOT NULL
+      );
+      CREATE TRIGGER IF NOT EXISTS ${trigger('insert')} AFTER INSERT ON ${this.itemsTable}
+      BEGIN
+        INSERT INTO ${this.streamTable} (event, key, data, expires, created)
+        VALUES ('INSERT', NEW.key, NEW.data, NEW.expires, NEW.updated);
+      END;
+      CREATE TRIGGER IF NOT EXISTS ${trigger('modify')} AFTER UPDATE ON ${this.itemsTable}
+      BEGIN
+        INSERT INTO ${this.streamTable} (event, key, data, expires, created)
+        VALUES ('MODIFY', NEW.key, NEW.data, NEW.expires, NEW.updated);
+      END;
+      CREATE TRIGGER IF NOT EXISTS ${trigger('remove')} AFTER DELETE ON ${this.itemsTable}
+      BEGIN
+        INSERT INTO ${this.streamTable} (event, key, data, expires, created)
+        VALUES ('REMOVE', OLD.key, OLD.data, OLD.expires, CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER));
+      END;
+    `);
+  }
+
+  /**
+   * Validate that existing tables have the expected columns.
+   */
+  private assert(db: DatabaseSync): void {
+    const expect = (table: string, name: string, columns: string[]): void => {
+      const existing = db
+        .prepare(`PRAGMA table_info(${table})`)
+        .all()
+        .map(({ name }) => `${name}`);
+      const missing = columns.filter((column) => !existing.includes(column));
+      if (missing.length) {
+        throw new FatalError(
+          `Table "${name}" is missing columns: ${missing.join(', ')}`
+        );
+      }
+    };
+
+    expect(this.itemsTable, this.tableName, [
+      'key',
+      'data',
+      'expires',
+      'updated',
+    ]);
+    expect(this.streamTable, this.streamTableName, [
+      'seq',
+      'event',
+      'key',
+      'data',
+      'expires',
+      'created',
+    ]);
+  }
+
+  /**
+   * Periodically delete expired items, which the remove trigger turns into
+   * stream events, and trim the stream to the retention period.
+   */
+  private sweeper(): void {
+    interval(this._sweepInterval)
+      .pipe(takeUntil(fromEvent(this.signal, 'abort')))
+      .subscribe(() => {
+        try {
+          const { changes } = this.db
+            .prepare(
+              `DELETE FROM ${this.itemsTable} WHERE expires IS NOT NULL AND expires <= ?`
+            )
+            .run(CloudProvider.TIME());
+          if (changes) {
+            this.logger.debug?.(`[${this.id}] Swept ${changes} expired items`);
+          }
+
+          this.db
+            .prepare(`DELETE FROM ${this.streamTable} WHERE created < ?`)
+            .run(Date.now() - this._retention);
+        } catch (error) {
+          this.logger.warn?.(`[${this.id}] Failed to sweep:`, error);
+        }
+      });
+  }
+
+  protected _stream(
+    all: boolean,
+    checkpoint?: Checkpoint
+  ): Observable<SQLiteRecord[]> {
+    const positions$ = checkpoint ? checkpoint.positions() : of({});
+
+    return positions$.pipe(
+      switchMap((positions: { [SHARD_ID]?: string }) => {
+        const resume = positions[SHARD_ID];
+        let position = resume
+          ? Number(resume)
+          : all
+            ? 0
+            : Number(
+                this.db
+                  .prepare(
+                    `SELECT COALESCE(MAX(seq), 0) AS seq FROM ${this.streamTable}`
+                  )
+                  .get()?.seq ?? 0
+              );
+
+        this.logger.debug?.(
+          `[${this.id}] Polling stream from sequence ${position}`
+        );
+        const select = this.db.prepare(
+          `SELECT seq, event, key, data, expires FROM ${this.streamTable} WHERE seq > ? ORDER BY seq LIMIT ${BATCH_SIZE}`
+        );
+
+        // Poll for new rows, emitting an empty batch when there are none
+        return timer(0, this.pollInterval).pipe(
+          takeUntil(fromEvent(this.signal, 'abort')),
+          map(() => {
+            const records = select.all(position) as SQLiteRecord[];
+            const last = records[records.length - 1];
+            if (last) {
+              position = last.seq;
+            }
+            return records;
+          })
+        );
+      }),
+      map((records) => {
+        const last = records[records.length - 1];
+        if (checkpoint && last) {
+          checkpoint.stage(SHARD_ID, `${last.seq}`);
+        }
+        return records;
+      })
+    );
+  }
+
+  /**
+   * Translate a snapshot filter into SQL conditions on the items' JSON.
+   */
+  private where<T>(filter: Filter<T>): {
+    conditions: string[];
+    params: SQLInputValue[];
+  } {
+    // JSON has no booleans in SQLite: json_extract returns 1 or 0
+    const param = (value: unknown): SQLInputValue =>
+      typeof value === 'boolean' ? Number(value) : (value as SQLInputValue);
+
+    return clauses(filter).reduce(
+      (acc, { path, operator, value }) => {
+        const json = `$.${path.map((key) => `"${key.replace(/"/g, '\\"')}"`).join('.')}`;
+        const field = `json_extract(data, ?)`;
+
+        switch (operator) {
+          case '$eq':
+          case '$ne': {
+            // A missing field is neither equal to null nor to any value
+            const equal = operator === '$eq' ? '' : 'NOT ';
+            if (value === undefined) {
+              acc.conditions.push(`json_type(data, ?) IS ${equal}NULL`);
+              acc.params.push(json);
+            } else if (value === null) {
+              acc.conditions.push(`json_type(data, ?) IS ${equal}'null'`);
+              acc.params.push(json);
+            } else {
+              acc.conditions.push(`${field} IS ${equal}?`);
+              acc.params.push(json, param(value));
+            }
+            break;
+          }
+          case '$gt':
+          case '$gte':
+          case '$lt':
+          case '$lte': {
+            const comparison = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' };
+            acc.conditions.push(`${field} ${comparison[operator]} ?`);
+            acc.params.push(json, param(value));
+            break;
+          }
+          case '$between': {
+            const [low, high] = value as [unknown, unknown];
+            acc.conditions.push(`${field} BETWEEN ? AND ?`);
+            acc.params.push(json, param(low), param(high));
+            break;
+          }
+          case '$beginsWith':
+            acc.conditions.push(
+              `json_type(data, ?) = 'text' AND substr(${field}, 1, length(?)) = ?`
+            );
+            acc.params.push(json, json, `${value}`, `${value}`);
+            break;
+          case '$in': {
+            const values = value as unknown[];
+            acc.conditions.push(
+              `${field} IN (${values.map(() => '?').join(', ')})`
+            );
+            acc.params.push(json, ...values.map(param));
+            break;
+          }
+          case '$exists':
+            acc.conditions.push(
+              `json_type(data, ?) IS ${value ? 'NOT NULL' : 'NULL'}`
+            );
+            acc.params.push(json);
+            break;
+        }
+        return acc;
+      },
+      {
+        // Expired items may not have been swept yet
+        conditions: ['(expires IS NULL OR expires > ?)'],
+        params: [CloudProvider.TIME()] as SQLInputValue[],
+      }
+    );
+  }
+
+  protected _snapshot<T>(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>> {
+    return defer(() => {
+      this.logger.debug?.(`[${this.id}] Fetching snapshot from SQLite...`);
+
+      const { limit, order = 'desc', cursor } = options;
+      const direction = order === 'asc' ? 'ASC' : 'DESC';
+      // Encrypted payloads can only be filtered once decrypted
+      const { conditions, params } = this.where(this.encrypted ? {} : filter);
+
+      // Keyset pagination, continuing after the last row of the previous page
+      if (cursor !== undefined) {
+        const [updated, rowid] = decodeCursor<[number, number]>(cursor);
+        conditions.push(
+          `(updated, rowid) ${order === 'asc' ? '>' : '<'} (?, ?)`
+        );
+        params.push(updated, rowid);
+      }
+
+      // Fetch one more row than requested to tell if there are more
+      const rows = this.db
+        .prepare(
+          `SELECT rowid, updated, key, data FROM ${this.itemsTable} WHERE ${conditions.join(' AND ')} ORDER BY updated ${direction}, rowid ${direction}${limit !== undefined ? ` LIMIT ${Number(limit) + 1}` : ''}`
+        )
+        .all(...params);
+
+      const page = limit !== undefined ? rows.slice(0, limit) : rows;
+      const last = page[page.length - 1];
+
+      const snapshot: Snapshot<T> = {
+        items: page
+          .map(
+            ({ key, data }) =>
+              this.codec.decode(
+                JSON.parse(`${data}`),
+                `${key}`
+              ) as Expireable<T>
+          )
+          .filter((item) => !this.scheduled(item))
+          .map(({ __emits: _emits, __expires: _expires, ...item }) => item as T)
+          .filter((item) => !this.encrypted || this.matches(item, filter)),
+      };
+      if (last && page.length < rows.length) {
+        snapshot.cursor = encodeCursor([last.updated, last.rowid]);
+      }
+
+      this.logger.debug?.(
+        `[${this.id}] Fetched ${snapshot.items.length} items from snapshot`
+      );
+      return of(snapshot);
+    });
+  }
+
+  protected _store<T>(
+    item: Expireable<T>,
+    hashFn: (value: T) => string = () => random().base62,
+    matched?: (event: SQLiteRecord) => void
+  ): Observable<Matcher<SQLiteRecord>> {
+    return defer(() => {
+      const key = hashFn(item);
+      this.logger.debug?.(`[${this.id}] Storing item with key ${key}:`, item);
+
+      this.db
+        .prepare(
+          `INSERT INTO ${this.itemsTable} (key, data, expires, updated) VALUES (?, ?, ?, ?)
+           ON CONFLICT (key) DO UPDATE SET data = excluded.data, expires = excluded.expires, updated = excluded.updated`
+        )
+        .run(
+          key,
+          JSON.stringify(this.codec.encode(item, key)),
+          item.__expires ?? null,
+          Date.now()
+        );
+
+      const matcher: Matcher<SQLiteRecord> = (event) => {
+        if (event.key === key && event.event !== 'REMOVE') {
+          matched?.(event);
+          return true;
+        }
+        return false;
+      };
+      return of(matcher);
+    });
+  }
+
+  protected _remove(marker: string): Observable<boolean> {
+    return defer(() => {
+      this.logger.debug?.(`[${this.id}] Removing item:`, marker);
+      const { changes } = this.db
+        .prepare(`DELETE FROM ${this.itemsTable} WHERE key = ?`)
+        .run(marker);
+      return of(changes > 0);
+    });
+  }
+
+  protected _isRemoval(event: SQLiteRecord): boolean {
+    return event.event === 'REMOVE';
+  }
+
+  protected _unmarshall<T>(
+    event: SQLiteRecord
+  ): Streamed<Expireable<T>, string> {
+    const result: Streamed<Expireable<T>, string> = {
+      ...(this.codec.decode(
+        JSON.parse(event.data),
+        event.key
+      ) as Expireable<T>),
+      __marker__: event.key,
+    };
+
+    if (typeof event.expires === 'number') {
+      result.__expires = event.expires;
+    }
+
+    return result;
+  }
+}
@@ -15,7 +15,8 @@ import { Subject } from './subject';
  * When wired via {@link withController}:
  *
  * - {@link next} routes values through `controller.put()` (writes to the data source)
- * - {@link subscribe} receives events from `fromEvent(controller, 'modified')`
+ * - {@link subscribe} receives events from `fromEvent(controller, 'inserted')`
+ *   and `fromEvent(controller, 'modified')`
  * - {@link getValue} returns the cached value, kept up-to-date by an internal
  *   subscription to the controller stream (may be stale until first event arrives)
  *
@@ -37,7 +38,8 @@ export class BehaviorSubject<T> extends _BehaviorSubject<T> {
    *
    * Once wired:
    * - {@link next} delegates to `controller.put()`
-   * - {@link subscribe} reads from the controller's `modified` event stream
+   * - {@link subscribe} reads from the controller's `inserted` and `modified`
+   *   event streams
    * - {@link getValue} returns the last value received from the stream
    *   (initially the constructor value until the first event arrives)
    *
@@ -0,0 +1,150 @@
+import { ICloudProvider } from '../providers';
+import {
+  AsyncSubject,
+  filter,
+  first,
+  from,
+  map,
+  merge,
+  Observable,
+  ObservableInput,
+  ReplaySubject,
+  shareReplay,
+  Subscription,
+  switchMap,
+  take,
+} from 'rxjs';
+
+export type CloudAsyncOptions = {
+  key?: string; // Stored record key, Default: CloudAsyncSubject.DEFAULT_KEY
+};
+
+/** Shape of the final value as stored by the provider */
+type Result<T> = {
+  key: string;
+  value: T;
+};
+
+/**
+ * Cloud-backed AsyncSubject.
+ *
+ * Values passed to {@link next} are held locally; only the last one is
+ * persisted, and only once {@link complete} is called. Every subscriber
+ * sharing the provider, in any process and no matter how late, receives
+ * the persisted value followed by completion.
+ *
+ * The value is observed through the provider's stream. When several
+ * producers complete, each stores its value under the same key, so
+ * subscribers may settle on different ones. With an idempotent provider
+ * (`idempotent: true`), only the first value is stored, and every
+ * subscriber settles on it.
+ */
+export class CloudAsyncSubject<T> extends AsyncSubject<T> {
+  public static DEFAULT_KEY = '__async__';
+
+  private completions = new ReplaySubject<T>(1);
+  private subscription: Subscription;
+  private provider$: Observable<ICloudProvider<unknown>>;
+  private latest?: { value: T };
+  private completing = false;
+  private disposed = false;
+
+  constructor(
+    provider: ObservableInput<ICloudProvider<unknown>>,
+    private options?: CloudAsyncOptions
+  ) {
+    super();
+    // Use refCount to auto-unsubscribe when no subscribers, preventing memory leak
+    this.provider$ = from(provider).pipe(
+      first(),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+
+    this.subscription = this.provider$
+      .pipe(
+        switchMap((provider) => {
+          const stored = this.completions.pipe(
+            take(1),
+            switchMap((value) =>
+              provider.store<Result<T>>({
+                key: this.key,
+                value,
+                hashFn: () => this.key,
+              })
+            ),
+            filter(() => false)
+          );
+          const streamed = provider.stream(true).pipe(
+            map((event) => provider.unmarshall<Result<T>>(event)),
+            filter((result) => result.key === this.key)
+          );
+
+          return merge(stored, streamed).pipe(
+            take(1),
+            map(({ value }) => value)
+          );
+        })
+      )
+      .subscribe({
+        next: (value) => {
+          this.completing = true;
+          super.next(value);
+          super.complete();
+        },
+        error: (err) => this.error(err),
+      });
+  }
+
+  get key(): string {
+    return this.options?.key ?? CloudAsyncSubject.DEFAULT_KEY;
+  }
+
+  override next(value: T): void {
+    if (this.disposed || this.completing) {
+      return;
+    }
+    this.latest = { value };
+  }
+
+  /**
+   * Persist the last value passed to {@link next}. Subscribers complete once
+   * the value has been observed on the provider's stream.
+   *
+   * Without a value there is nothing to hand off, so only local subscribers
+   * are completed.
+   */
+  override complete(): void {
+    if (this.disposed || this.completing) {
+      return;
+    }
+    this.completing = true;
+
+    if (!this.latest) {
+      this._unsubscribe();
+      super.complete();
+      return;
+    }
+
+    this.completions.next(this.latest.value);
+    this.completions.complete();
+  }
+
+  override error(err: unknown): void {
+    this._unsubscribe();
+    super.error(err);
+  }
+
+  override unsubscribe(): void {
+    this._unsubscribe();
+    super.unsubscribe();
+  }
+
+  private _unsubscribe(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.subscription?.unsubscribe();
+    this.completions.complete();
+  }
+}
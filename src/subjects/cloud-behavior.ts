@@ -0,0 +1,134 @@
+import { persist } from '../operators';
+import { Filter, ICloudProvider } from '../providers';
+import {
+  BehaviorSubject,
+  filter,
+  first,
+  from,
+  ignoreElements,
+  map,
+  merge,
+  Observable,
+  ObservableInput,
+  of,
+  ReplaySubject,
+  shareReplay,
+  Subscription,
+  switchMap,
+  take,
+  tap,
+} from 'rxjs';
+
+export type CloudBehaviorOptions = {
+  key?: string; // Stored record key, Default: CloudBehaviorSubject.DEFAULT_KEY
+};
+
+/** Shape of the current value as stored by the provider */
+type Current<T> = {
+  key: string;
+  value: T;
+};
+
+/**
+ * Cloud-backed BehaviorSubject.
+ *
+ * The current value is stored as a single record in the provider. On
+ * initialization it is hydrated from `snapshot()`, so {@link getValue} only
+ * falls back to the initial value when nothing has been stored yet. Each
+ * {@link next} overwrites the stored record, and every subject sharing the
+ * provider converges on the new value once it is observed on the provider's
+ * stream (including the subject that called {@link next}).
+ */
+export class CloudBehaviorSubject<T> extends BehaviorSubject<T> {
+  public static DEFAULT_KEY = '__behavior__';
+
+  private buffer = new ReplaySubject<Current<T>>();
+  private subscription: Subscription;
+  private provider$: Observable<ICloudProvider<unknown>>;
+  private disposed = false;
+
+  constructor(
+    provider: ObservableInput<ICloudProvider<unknown>>,
+    initialValue: T,
+    private options?: CloudBehaviorOptions
+  ) {
+    super(initialValue);
+    // Use refCount to auto-unsubscribe when no subscribers, preventing memory leak
+    this.provider$ = from(provider).pipe(
+      first(),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+
+    this.subscription = this.provider$
+      .pipe(
+        switchMap((provider) => {
+          // Once the stream has delivered a value, the snapshot is stale
+          let streamed = false;
+
+          const persisted = this.buffer.pipe(
+            persist(of(provider), () => this.key)
+          );
+          const updates = provider.stream().pipe(
+            map((event) => provider.unmarshall<Current<T>>(event)),
+            filter((current) => current.key === this.key),
+            tap(() => (streamed = true))
+          );
+          const hydrated = provider
+            .snapshot$<Current<T>>({ key: this.key } as Filter<Current<T>>)
+            .pipe(
+              take(1),
+              filter(() => !streamed)
+            );
+
+          return merge(
+            persisted.pipe(ignoreElements()),
+            updates,
+            hydrated
+          ).pipe(map(({ value }) => value));
+        })
+      )
+      .subscribe({
+        next: (value) => super.next(value),
+        error: (err) => this.error(err),
+        complete: () => this.complete(),
+      });
+  }
+
+  get key(): string {
+    return this.options?.key ?? CloudBehaviorSubject.DEFAULT_KEY;
+  }
+
+  /**
+   * Persist a new current value. Subscribers (and {@link getValue}) reflect
+   * it once the provider's stream delivers it.
+   */
+  override next(value: T): void {
+    this.buffer.next({ key: this.key, value });
+  }
+
+  override error(err: unknown): void {
+    this._unsubscribe();
+    this.buffer.error(err);
+    super.error(err);
+  }
+
+  override complete(): void {
+    this._unsubscribe();
+    this.buffer.complete();
+    super.complete();
+  }
+
+  override unsubscribe(): void {
+    this._unsubscribe();
+    this.buffer.unsubscribe();
+    super.unsubscribe();
+  }
+
+  private _unsubscribe(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.subscription?.unsubscribe();
+  }
+}
@@ -5,6 +5,8 @@ import {
   Expireable,
   Filter,
   ICloudProvider,
+  Snapshot,
+  SnapshotOptions,
 } from '../providers';
 import {
   first,
@@ -12,6 +14,7 @@ import {
   ignoreElements,
   map,
   merge,
+  mergeMap,
   Observable,
   ObservableInput,
   of,
@@ -22,13 +25,16 @@ import {
   tap,
 } from 'rxjs';
 
-export type SubjectEventType = 'expired';
+export type SubjectEventType = 'expired' | 'removed';
 export type CloudReplayOptions<T> = {
   hashFn?: (value: T) => string;
+  checkpoint?: string; // Consumer name used to resume the replay across restarts
 };
 
 export class CloudReplaySubject<T> extends ReplaySubject<T> {
   private buffer = new ReplaySubject<Expireable<T>>();
+  private removals = new ReplaySubject<unknown>();
+  private markers = new WeakMap<object, unknown>();
   private emitter = new EventEmitter<{ [K in SubjectEventType]: [T] }>();
   private subscription: Subscription;
   private provider$: Observable<ICloudProvider<unknown>>;
@@ -51,22 +57,39 @@ export class CloudReplaySubject<T> extends ReplaySubject<T> {
           const persisted = this.buffer.pipe(
             persist(of(provider), this.options?.hashFn)
           );
-          const streamed = provider
-            .stream(true)
-            .pipe(map((event) => provider.unmarshall<T>(event)));
+          const streamed = provider.stream(true, this.options?.checkpoint).pipe(
+            map((event) => {
+              const value = provider.unmarshall<T>(event);
+              if (typeof value === 'object' && value !== null) {
+                this.markers.set(value, provider.marker(event));
+              }
+              return value;
+            })
+          );
           const expired = provider
             .expired()
             .pipe(map((event) => provider.unmarshall<T>(event)));
+          const removed = provider
+            .removed()
+            .pipe(map((event) => provider.unmarshall<T>(event)));
+          const removals = this.removals.pipe(
+            mergeMap((marker) => provider.remove<T>(marker))
+          );
 
           return merge(
             persisted.pipe(
               tap(() => {}),
               ignoreElements()
             ),
+            removals.pipe(ignoreElements()),
             streamed.pipe(tap((event) => super.next(event))),
             expired.pipe(
               tap((event) => this.emitter.emit('expired', event)),
               ignoreElements()
+            ),
+            removed.pipe(
+              tap((event) => this.emitter.emit('removed', event)),
+              ignoreElements()
             )
           );
         })
@@ -77,15 +100,36 @@ export class CloudReplaySubject<T> extends ReplaySubject<T> {
       });
   }
 
-  public snapshot(filter?: Filter<T>): Observable<T[]> {
+  public snapshot(filter?: Filter<T>): Observable<T[]>;
+  public snapshot(
+    filter: Filter<T>,
+    options: SnapshotOptions
+  ): Observable<Snapshot<T>>;
+  public snapshot(
+    filter?: Filter<T>,
+    options?: SnapshotOptions
+  ): Observable<T[] | Snapshot<T>> {
+    return this.provider$.pipe(
+      switchMap((provider) =>
+        options
+          ? provider.snapshot<T>(filter || {}, options)
+          : provider.snapshot<T>(filter || {})
+      )
+    );
+  }
+
+  public snapshot$(
+    filter?: Filter<T>,
+    options?: SnapshotOptions
+  ): Observable<T> {
     return this.provider$.pipe(
-      switchMap((provider) => provider.snapshot<T>(filter || {}))
+      switchMap((provider) => provider.snapshot$<T>(filter, options))
     );
   }
 
   override next(
     value: T,
-    timing?: Date | number | { emitAt?: Date; expireAt?: Date } // TODO: implement emitAt
+    timing?: Date | number | { emitAt?: Date; expireAt?: Date }
   ): void {
     if (!timing) {
       return this.buffer.next({
@@ -106,40 +150,66 @@ export class CloudReplaySubject<T> extends ReplaySubject<T> {
       timing = { expireAt: timing };
     }
 
-    if (timing.expireAt && !timing.emitAt) {
-      return this.buffer.next({
-        ...value,
-        hashFn: this.options?.hashFn,
-        __expires: CloudProvider.TIME(timing.expireAt),
-      } as Expireable<T>);
+    if (!timing.expireAt && !timing.emitAt) {
+      throw new Error('Invalid timing provided');
     }
 
-    if (!timing.expireAt && timing.emitAt) {
-      throw new Error('emitAt not implemented');
+    const item = {
+      ...value,
+      hashFn: this.options?.hashFn,
+    } as Expireable<T>;
+
+    if (timing.expireAt) {
+      item.__expires = CloudProvider.TIME(timing.expireAt);
+    }
+
+    if (timing.emitAt) {
+      // Round up so the value is never delivered before `emitAt`
+      item.__emits = Math.ceil(timing.emitAt.getTime() / 1000);
     }
 
-    if (timing.expireAt && timing.emitAt) {
-      throw new Error('expireAt + emitAt not implemented');
+    return this.buffer.next(item);
+  }
+
+  /**
+   * Remove a value from the provider. The value must either have been
+   * emitted by this subject, or be resolvable through `hashFn`. Listeners
+   * registered with `on('removed', ...)` are notified once the provider
+   * reports the removal.
+   */
+  remove(value: T): void {
+    const marker =
+      typeof value === 'object' && value !== null && this.markers.has(value)
+        ? this.markers.get(value)
+        : this.options?.hashFn?.(value);
+
+    if (marker === undefined) {
+      throw new Error(
+        'Unable to resolve stored record: value was not emitted by this subject and no hashFn is configured'
+      );
     }
 
-    throw new Error('Invalid timing provided');
+    this.removals.next(marker);
   }
 
   override error(err: unknown): void {
     this._unsubscribe();
     this.buffer.error(err);
+    this.removals.error(err);
     super.error(err);
   }
 
   override complete(): void {
     this._unsubscribe();
     this.buffer.complete();
+    this.removals.complete();
     super.complete();
   }
 
   override unsubscribe(): void {
     this._unsubscribe();
     this.buffer.unsubscribe();
+    this.removals.unsubscribe();
     super.unsubscribe();
   }
 
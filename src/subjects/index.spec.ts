@@ -1,6 +1,11 @@
 /* global describe, it, beforeEach, afterEach, expect */
 import { Observable, of } from 'rxjs';
-import { Controller, ControllerEvent, ControllerOptions } from '../controllers';
+import {
+  Controller,
+  ControllerEvent,
+  ControllerOptions,
+  UpdateChanges,
+} from '../controllers';
 import { BehaviorSubject, Subject } from './index';
 
 type TestEvent = ControllerEvent<string, string>;
@@ -28,6 +33,11 @@ class TestController extends Controller<TestEvent> {
     return of(undefined as void);
   }
 
+  override update(key: string, _changes: UpdateChanges): Observable<string> {
+    this.allEvents$.next({ type: 'modified', key, value: key });
+    return of(key);
+  }
+
   override remove(key: string): Observable<void> {
     this.allEvents$.next({ type: 'removed', key, value: key });
     return of(undefined as void);
@@ -1,3 +1,5 @@
 export { BehaviorSubject } from './behavior-subject';
+export { CloudAsyncSubject, CloudAsyncOptions } from './cloud-async';
+export { CloudBehaviorSubject, CloudBehaviorOptions } from './cloud-behavior';
 export { CloudReplaySubject } from './cloud-replay';
 export { Subject } from './subject';
@@ -1,4 +1,10 @@
-import { Observable, Observer, Subject as _Subject, Subscription } from 'rxjs';
+import {
+  Observable,
+  Observer,
+  Subject as _Subject,
+  Subscription,
+  merge,
+} from 'rxjs';
 import { map } from 'rxjs/operators';
 import { Controller, ControllerEvent } from '../controllers';
 import { fromEvent } from '../observables';
@@ -10,7 +16,8 @@ import { fromEvent } from '../observables';
  * When wired via {@link withController}:
  *
  * - {@link next} routes values through `controller.put()` (writes to the data source)
- * - {@link subscribe} receives events from `fromEvent(controller, 'modified')`
+ * - {@link subscribe} receives events from `fromEvent(controller, 'inserted')`
+ *   and `fromEvent(controller, 'modified')`
  *   (reads from the stream, not from `next` directly)
  *
  * @typeParam T - The value type emitted by the subject
@@ -34,7 +41,7 @@ export class Subject<T> extends _Subject<T> {
   /** Bound put function from the wired controller */
   private controllerPut?: (value: T) => Observable<void>;
 
-  /** Observable sourced from controller 'modified' events, mapped to values */
+  /** Observable sourced from controller 'inserted'/'modified' events, as values */
   private controllerSource$?: Observable<T>;
 
   constructor() {
@@ -45,7 +52,8 @@ export class Subject<T> extends _Subject<T> {
    * Wire this subject to a Controller.
    *
    * Once wired, {@link next} delegates to `controller.put()` and
-   * {@link subscribe} reads from the controller's `modified` event stream.
+   * {@link subscribe} reads from the controller's `inserted` and `modified`
+   * event streams.
    *
    * @param controller The controller to bridge
    * @returns `this` for chaining
@@ -54,9 +62,10 @@ export class Subject<T> extends _Subject<T> {
     controller: Controller<E>
   ): this {
     this.controllerPut = (v: T): Observable<void> => controller.put(v as never);
-    this.controllerSource$ = fromEvent(controller, 'modified').pipe(
-      map((e) => e.value as T)
-    );
+    this.controllerSource$ = merge(
+      fromEvent(controller, 'inserted'),
+      fromEvent(controller, 'modified')
+    ).pipe(map((e) => e.value as T));
     return this;
   }
 
@@ -74,8 +83,8 @@ export class Subject<T> extends _Subject<T> {
 
   /**
    * Subscribe to values. If wired to a controller, subscribes to the
-   * controller's `modified` event stream; otherwise behaves like a
-   * normal RxJS Subject subscription.
+   * controller's `inserted` and `modified` event streams; otherwise
+   * behaves like a normal RxJS Subject subscription.
    */
   override subscribe(
     observerOrNext?: Partial<Observer<T>> | ((value: T) => void) | null,
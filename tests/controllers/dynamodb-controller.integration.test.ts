@@ -5,7 +5,7 @@ import {
   TableDescription,
 } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
-import { fromEvent, Controller } from 'cloudrx';
+import { fromEvent } from 'cloudrx';
 import {
   DynamoDBController,
   DynamoDBEvent,
@@ -22,7 +22,7 @@ describe('DynamoDBController Integration', () => {
   let container: DynamoDBLocalContainer;
   let clientConfig: DynamoDBClientConfig;
   let docClient: DynamoDBDocumentClient;
-  let controller: Controller<DynamoDBEvent<TestRecord>>;
+  let controller: DynamoDBController<TestRecord>;
   let subscriptions: Subscription[] = [];
   let table: TableDescription;
 
@@ -66,7 +66,7 @@ describe('DynamoDBController Integration', () => {
   });
 
   describe('event streaming', () => {
-    it('emits modified event on INSERT', async () => {
+    it('emits inserted event on INSERT', async () => {
       // Seed record to ensure stream has shards
       await firstValueFrom(controller.put({ id: 'seed', data: 'seed record' }));
 
@@ -74,7 +74,7 @@ describe('DynamoDBController Integration', () => {
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       const events: DynamoDBEvent<TestRecord>[] = [];
-      const sub = fromEvent(controller, 'modified').subscribe((event) => {
+      const sub = fromEvent(controller, 'inserted').subscribe((event) => {
         events.push(event);
       });
       subscriptions.push(sub);
@@ -95,7 +95,7 @@ describe('DynamoDBController Integration', () => {
       expect(insertEvent).toBeDefined();
 
       // Verify exact event content matches what was inserted
-      expect(insertEvent!.type).toBe('modified');
+      expect(insertEvent!.type).toBe('inserted');
       expect(insertEvent!.eventName).toBe('INSERT');
       expect(insertEvent!.value).toEqual({
         id: 'test-1',
@@ -139,11 +139,48 @@ describe('DynamoDBController Integration', () => {
         id: 'test-2',
         data: 'updated',
       });
+      expect(modifyEvent!.oldValue).toEqual({
+        id: 'test-2',
+        data: 'original',
+      });
+      expect(modifyEvent!.diff).toEqual({
+        changed: ['data'],
+        added: [],
+        removed: [],
+      });
       expect(modifyEvent!.key).toEqual({ id: 'test-2' });
       expect(modifyEvent!.timestamp).toBeInstanceOf(Date);
       expect(typeof modifyEvent!.sequenceNumber).toBe('string');
     });
 
+    it('emits modified event on a partial update', async () => {
+      await firstValueFrom(controller.put({ id: 'test-4', data: 'original' }));
+
+      // Wait for shard to be created
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const events: DynamoDBEvent<TestRecord>[] = [];
+      const sub = fromEvent(controller, 'modified').subscribe((event) => {
+        events.push(event);
+      });
+      subscriptions.push(sub);
+
+      // Wait for stream polling to catch up
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const updated = await firstValueFrom(
+        controller.update({ id: 'test-4' }, { set: { data: 'patched' } })
+      );
+      expect(updated).toEqual({ id: 'test-4', data: 'patched' });
+
+      // Wait for event
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const modifyEvent = events.find((e) => e.eventName === 'MODIFY');
+      expect(modifyEvent!.type).toBe('modified');
+      expect(modifyEvent!.value).toEqual({ id: 'test-4', data: 'patched' });
+    });
+
     it('emits removed event on DELETE', async () => {
       // Seed record
       await firstValueFrom(controller.put({ id: 'test-3', data: 'to-delete' }));
@@ -198,7 +235,7 @@ describe('DynamoDBController Integration', () => {
 
       // Subscribe and wait for polling to catch up
       const events: DynamoDBEvent<TestRecord>[] = [];
-      const sub = fromEvent(newController, 'modified').subscribe((e) =>
+      const sub = fromEvent(newController, 'inserted').subscribe((e) =>
         events.push(e)
       );
 
@@ -219,7 +256,7 @@ describe('DynamoDBController Integration', () => {
       expect(targetEvent).toBeDefined();
 
       // Verify exact event content
-      expect(targetEvent!.type).toBe('modified');
+      expect(targetEvent!.type).toBe('inserted');
       expect(targetEvent!.eventName).toBe('INSERT');
       expect(targetEvent!.value).toEqual({
         id: 'obs-test',
@@ -237,10 +274,10 @@ describe('DynamoDBController Integration', () => {
       const events1: DynamoDBEvent<TestRecord>[] = [];
       const events2: DynamoDBEvent<TestRecord>[] = [];
 
-      const sub1 = fromEvent(controller, 'modified').subscribe((e) =>
+      const sub1 = fromEvent(controller, 'inserted').subscribe((e) =>
         events1.push(e)
       );
-      const sub2 = fromEvent(controller, 'modified').subscribe((e) =>
+      const sub2 = fromEvent(controller, 'inserted').subscribe((e) =>
         events2.push(e)
       );
       subscriptions.push(sub1, sub2);
@@ -270,14 +307,14 @@ describe('DynamoDBController Integration', () => {
       const event1 = events1Filtered[0]!;
       const event2 = events2Filtered[0]!;
 
-      expect(event1.type).toBe('modified');
+      expect(event1.type).toBe('inserted');
       expect(event1.eventName).toBe('INSERT');
       expect(event1.value).toEqual({
         id: 'multi-test',
         data: 'shared',
       });
 
-      expect(event2.type).toBe('modified');
+      expect(event2.type).toBe('inserted');
       expect(event2.eventName).toBe('INSERT');
       expect(event2.value).toEqual({
         id: 'multi-test',
@@ -310,6 +347,61 @@ describe('DynamoDBController Integration', () => {
     });
   });
 
+  describe('query() and scan() methods', () => {
+    beforeEach(async () => {
+      for (const id of ['q-1', 'q-2', 'q-3']) {
+        await firstValueFrom(controller.put({ id, data: `data-${id}` }));
+      }
+    });
+
+    it('queries items by key', async () => {
+      const items = await firstValueFrom(
+        controller.query({ keyCondition: { id: 'q-2' } }).pipe(toArray())
+      );
+
+      expect(items).toEqual([{ id: 'q-2', data: 'data-q-2' }]);
+    });
+
+    it('scans filtered items across segments', async () => {
+      const items = await firstValueFrom(
+        controller
+          .scan({ filter: { data: { $ne: 'data-q-1' } }, segments: 2 })
+          .pipe(toArray())
+      );
+
+      expect(items.map(({ id }) => id).sort()).toEqual(['q-2', 'q-3']);
+    });
+  });
+
+  describe('watch()', () => {
+    it('emits an item and its changes until removed', async () => {
+      // Seed record to create the item and shard
+      await firstValueFrom(controller.put({ id: 'watched', data: 'first' }));
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const values: (TestRecord | undefined)[] = [];
+      const done = new Promise<void>((resolve) => {
+        const sub = controller
+          .watch({ id: 'watched' }, { untilRemoved: true })
+          .subscribe({ next: (v) => values.push(v), complete: resolve });
+        subscriptions.push(sub);
+      });
+
+      // Wait for stream polling to catch up
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      await firstValueFrom(controller.put({ id: 'other', data: 'skipped' }));
+      await firstValueFrom(controller.put({ id: 'watched', data: 'second' }));
+      await firstValueFrom(controller.remove({ id: 'watched' }));
+      await done;
+
+      expect(values).toEqual([
+        { id: 'watched', data: 'first' },
+        { id: 'watched', data: 'second' },
+      ]);
+    });
+  });
+
   describe('track() method', () => {
     it('tracks observables with controller lifecycle', async () => {
       const { of } = await import('rxjs');
@@ -107,6 +107,7 @@ describe('persist', () => {
       // Providerless persistReplay has no historical data to replay
       await replay(persistReplay(), { events: [] });
       await observe(persistReplay(), { events: [] });
+      await run(persist(undefined, undefined, { batch: {} }));
     });
 
     describe('memory', () => {
@@ -127,6 +128,14 @@ describe('persist', () => {
         await observe(persistReplay(provider), events);
       });
 
+      test('persist-batched', async () => {
+        const provider = Memory.from(testId());
+        const events = await run(
+          persist(provider, undefined, { batch: { count: 2, window: 50 } })
+        );
+        await observe(persistReplay(provider), events);
+      });
+
       test('persist-replay-observe', async () => {
         const provider = Memory.from(testId());
         const events = await run(persist(provider));
@@ -1,8 +1,26 @@
-import { CloudProvider, DynamoDB, DynamoDBOptions } from 'cloudrx';
+import {
+  CloudProvider,
+  DynamoDB,
+  DynamoDBOptions,
+  ItemTooLargeError,
+} from 'cloudrx';
 import { DynamoDBLocalContainer } from './local';
 import { testId } from '../../../setup';
-import { firstValueFrom } from 'rxjs';
+import {
+  filter,
+  firstValueFrom,
+  lastValueFrom,
+  map,
+  scan,
+  timeout,
+  toArray,
+} from 'rxjs';
 import { _Record, Shard } from '@aws-sdk/client-dynamodb-streams';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
 
 describe('aws-dynamodb', () => {
   let container: DynamoDBLocalContainer;
@@ -76,6 +94,214 @@ describe('aws-dynamodb', () => {
     }
   });
 
+  test('replays-from-the-table', async () => {
+    const instance = await firstValueFrom(DynamoDB.from(testId(), options));
+    const history: Data[] = [
+      { message: 'history-1', timestamp: 1 },
+      { message: 'history-2', timestamp: 2 },
+    ];
+    for (const item of history) {
+      await firstValueFrom(instance.store(item));
+    }
+
+    const messages$ = instance.stream(true).pipe(
+      map((event) => instance.unmarshall<Data>(event).message),
+      scan((messages, message) => [...messages, message], [] as string[])
+    );
+
+    // History comes from the table, then the live stream takes over
+    const replayed = firstValueFrom(
+      messages$.pipe(
+        filter((messages) => messages.length === 2),
+        timeout(10000)
+      )
+    );
+    expect(await replayed).toEqual(['history-1', 'history-2']);
+
+    const received = firstValueFrom(
+      messages$.pipe(
+        filter((messages) => messages.includes('live')),
+        timeout(10000)
+      )
+    );
+    await firstValueFrom(instance.store({ message: 'live', timestamp: 3 }));
+    expect(await received).toEqual(['history-1', 'history-2', 'live']);
+  });
+
+  test('replays-without-rewriting-the-init-record', async () => {
+    const instance = await firstValueFrom(DynamoDB.from(testId(), options));
+    const client = DynamoDBDocumentClient.from(container.getClient());
+    const init = (): Promise<Record<string, unknown> | undefined> =>
+      client
+        .send(
+          new GetCommand({
+            TableName: instance.tableName,
+            Key: {
+              [instance.hashKey]: instance.id,
+              [instance.rangeKey]: '__init__',
+            },
+          })
+        )
+        .then(({ Item }) => Item);
+    const before = await init();
+    await firstValueFrom(instance.store({ message: 'history', timestamp: 1 }));
+
+    // Each replay only sets its handoff token on the init record
+    for (let i = 0; i < 2; i++) {
+      await firstValueFrom(instance.stream(true).pipe(timeout(10000)));
+      const after = await init();
+      expect(after?.data).toEqual(before?.data);
+      expect(after?.handoff).toEqual(expect.any(String));
+    }
+  });
+
+  test('stores-many-items', async () => {
+    const instance = await firstValueFrom(DynamoDB.from(testId(), options));
+    // More than one BatchWriteItem request
+    const items: Data[] = Array.from({ length: 30 }, (_, i) => ({
+      message: `batch-${i}`,
+      timestamp: i,
+    }));
+
+    const stored = await lastValueFrom(
+      instance.storeMany(items).pipe(toArray())
+    );
+
+    expect(stored).toHaveLength(items.length);
+    expect(stored).toEqual(expect.arrayContaining(items));
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toHaveLength(
+      items.length
+    );
+  });
+
+  test('chunks-large-items', async () => {
+    const instance = await firstValueFrom(DynamoDB.from(testId(), options));
+    // Over two chunks of JSON
+    const large: Data = { message: 'x'.repeat(800 * 1024), timestamp: 1 };
+    const small: Data = { message: 'small', timestamp: 2 };
+
+    expect(await firstValueFrom(instance.store(large))).toEqual(large);
+    await firstValueFrom(instance.store(small));
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([
+      small,
+      large,
+    ]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ timestamp: 1 }))
+    ).toEqual([large]);
+
+    const replayed = await firstValueFrom(
+      instance.stream(true).pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        scan((items, item) => [...items, item], [] as Data[]),
+        filter((items) => items.length === 2),
+        timeout(10000)
+      )
+    );
+    expect(replayed).toEqual([large, small]);
+  });
+
+  test('stores-idempotently', async () => {
+    const instance = await firstValueFrom(
+      DynamoDB.from(testId(), { ...options, idempotent: true })
+    );
+    const hashFn = (): string => 'event-1';
+    const first: Data = { message: 'first', timestamp: 1 };
+    const retry: Data = { message: 'retry', timestamp: 2 };
+    const large: Data = { message: 'x'.repeat(400 * 1024), timestamp: 3 };
+
+    expect(await firstValueFrom(instance.store({ ...first, hashFn }))).toEqual(
+      first
+    );
+    // Retries of the same key resolve to the stored item
+    expect(await firstValueFrom(instance.store({ ...retry, hashFn }))).toEqual(
+      first
+    );
+    expect(
+      await lastValueFrom(instance.storeMany([{ ...large, hashFn }]))
+    ).toEqual(first);
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([first]);
+  });
+
+  test('stores-idempotently-after-a-removal', async () => {
+    const instance = await firstValueFrom(
+      DynamoDB.from(testId(), { ...options, idempotent: true })
+    );
+    const hashFn = (): string => 'event-1';
+    const item: Data = { message: 'stored', timestamp: 1 };
+
+    // The condition fails as if the key were stored, but nothing is stored
+    // when the item is read, as if it was removed or expired in between
+    const send = DynamoDBDocumentClient.prototype.send as (
+      command: PutCommand
+    ) => Promise<unknown>;
+    let failed = false;
+    const spy = jest
+      .spyOn(DynamoDBDocumentClient.prototype, 'send')
+      .mockImplementation(function (
+        this: DynamoDBDocumentClient,
+        command: unknown
+      ) {
+        if (
+          !failed &&
+          command instanceof PutCommand &&
+          command.input.ConditionExpression
+        ) {
+          failed = true;
+          const error = new Error('The conditional request failed');
+          error.name = 'ConditionalCheckFailedException';
+          return Promise.reject(error);
+        }
+        return send.call(this, command as PutCommand);
+      } as never);
+
+    try {
+      expect(
+        await firstValueFrom(
+          instance.store({ ...item, hashFn }).pipe(timeout(10000))
+        )
+      ).toEqual(item);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(failed).toBe(true);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([item]);
+  });
+
+  test('stores-idempotently-over-an-expired-item', async () => {
+    const instance = await firstValueFrom(
+      DynamoDB.from(testId(), { ...options, idempotent: true })
+    );
+    const hashFn = (): string => 'event-1';
+    const expired = {
+      message: 'expired',
+      timestamp: 1,
+      __expires: CloudProvider.TIME() - 1,
+    };
+    const retry: Data = { message: 'retry', timestamp: 2 };
+
+    // TTL deletes expired items eventually, long after this test ends
+    await firstValueFrom(instance.store({ ...expired, hashFn }));
+    expect(await firstValueFrom(instance.store({ ...retry, hashFn }))).toEqual(
+      retry
+    );
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([retry]);
+  });
+
+  test('rejects-items-too-large', async () => {
+    const instance = await firstValueFrom(
+      DynamoDB.from(testId(), { ...options, maxItemSize: 1024 })
+    );
+    const item: Data = { message: 'x'.repeat(2048), timestamp: 1 };
+
+    await expect(firstValueFrom(instance.store(item))).rejects.toThrow(
+      ItemTooLargeError
+    );
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([]);
+  });
+
   test('shard-emits-once', async () => {
     const mockStreamClient = {
       send: jest.fn(),
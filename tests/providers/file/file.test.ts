@@ -0,0 +1,226 @@
+import { CloudProvider, File, KeyProvider, LocalKeyring } from 'cloudrx';
+import { randomBytes } from 'crypto';
+import { testId } from '../../setup';
+import { copyFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  delay,
+  filter,
+  firstValueFrom,
+  lastValueFrom,
+  map,
+  take,
+  timeout,
+  toArray,
+} from 'rxjs';
+
+describe('file', () => {
+  type Data = { message: string; timestamp: number };
+
+  let directory: string;
+
+  const wait = (ms: number): Promise<void> =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  const lines = (instance: File): Record<string, unknown>[] =>
+    readFileSync(instance.path, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+  beforeAll(() => {
+    CloudProvider.DEFAULT_LOGGER = console;
+    directory = mkdtempSync(join(tmpdir(), 'cloudrx-file-'));
+  });
+
+  afterAll(() => {
+    CloudProvider.abort('Tests complete');
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('is-a-singleton', async () => {
+    const instance1 = await firstValueFrom(File.from(testId(), { directory }));
+    const instance2 = await firstValueFrom(File.from(testId(), { directory }));
+    expect(instance1).toBe(instance2);
+    expect(instance1.path).toBe(join(directory, `cloudrx-${testId()}.jsonl`));
+  });
+
+  test('appends-items', async () => {
+    const instance = await firstValueFrom(File.from(testId(), { directory }));
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+
+    for (const item of items) {
+      expect(await firstValueFrom(instance.store(item))).toEqual(item);
+    }
+
+    expect(lines(instance).map((line) => line.data)).toEqual(items);
+  });
+
+  test('snapshots-newest-first', async () => {
+    const instance = await firstValueFrom(File.from(testId(), { directory }));
+    const first: Data = { message: 'first', timestamp: Date.now() };
+    const second: Data = { message: 'second', timestamp: Date.now() };
+    await firstValueFrom(instance.store(first));
+    await firstValueFrom(instance.store(second));
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([
+      second,
+      first,
+    ]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ message: 'first' }))
+    ).toEqual([first]);
+  });
+
+  test('encrypts-payloads', async () => {
+    const encryption = new LocalKeyring({
+      keys: { 'key-1': randomBytes(32) },
+      current: 'key-1',
+    });
+    const instance = await firstValueFrom(
+      File.from(testId(), { directory, encryption })
+    );
+    const item: Data = { message: 'secret', timestamp: Date.now() };
+
+    expect(await firstValueFrom(instance.store(item))).toEqual(item);
+    expect(readFileSync(instance.path, 'utf8')).not.toContain('secret');
+    expect(lines(instance)[0]?.data).toMatchObject({
+      __encrypted: { keyId: 'key-1' },
+    });
+
+    // Filters are evaluated once payloads are decrypted
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ message: 'secret' }))
+    ).toEqual([item]);
+  });
+
+  test('resolves-data-keys-asynchronously', async () => {
+    const keyring = new LocalKeyring({
+      keys: { 'key-1': randomBytes(32) },
+      current: 'key-1',
+    });
+    // Like a remote key service, answering after a round trip
+    const encryption: KeyProvider = {
+      wrap: (dataKey) => keyring.wrap(dataKey).pipe(delay(10)),
+      unwrap: (wrapped) => keyring.unwrap(wrapped).pipe(delay(10)),
+    };
+    const id = testId();
+    const writer = await firstValueFrom(
+      File.from(id, { directory, encryption })
+    );
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+    for (const item of items) {
+      expect(await firstValueFrom(writer.store(item))).toEqual(item);
+    }
+
+    // A reader that has never seen the data keys unwraps them
+    copyFileSync(writer.path, join(directory, `reader-${id}.jsonl`));
+    const reader = await firstValueFrom(
+      File.from(id, { directory, namespace: 'reader', encryption })
+    );
+    expect(
+      await lastValueFrom(reader.snapshot<Data>({}, { order: 'asc' }))
+    ).toEqual({ items });
+    expect(
+      await lastValueFrom(
+        reader.stream(true).pipe(
+          take(2),
+          map((event) => reader.unmarshall<Data>(event)),
+          toArray()
+        )
+      )
+    ).toEqual(items);
+  });
+
+  test('replays-from-offset-zero', async () => {
+    const instance = await firstValueFrom(File.from(testId(), { directory }));
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+    for (const item of items) {
+      await firstValueFrom(instance.store(item));
+    }
+
+    const replayed = await lastValueFrom(
+      instance.stream(true).pipe(
+        take(2),
+        map((event) => ({
+          marker: instance.marker(event),
+          data: instance.unmarshall<Data>(event),
+        })),
+        toArray()
+      )
+    );
+
+    expect(replayed.map(({ data }) => data)).toEqual(items);
+    // Markers are line offsets
+    expect(replayed[0]!.marker).toBe(0);
+    expect(replayed[1]!.marker).toBe(
+      Buffer.byteLength(readFileSync(instance.path, 'utf8').split('\n')[0]!) + 1
+    );
+  });
+
+  test('removes-with-a-tombstone', async () => {
+    const instance = await firstValueFrom(File.from(testId(), { directory }));
+    const item: Data = { message: 'removed', timestamp: Date.now() };
+    await firstValueFrom(instance.store(item));
+
+    expect(await firstValueFrom(instance.remove<Data>(0))).toEqual(item);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([]);
+    expect(lines(instance)).toEqual([
+      { key: expect.any(String), data: item },
+      { key: expect.any(String), data: item, removes: 0 },
+    ]);
+  });
+
+  test('honors-expires', async () => {
+    const instance = await firstValueFrom(File.from(testId(), { directory }));
+    const kept: Data = { message: 'kept', timestamp: Date.now() };
+    const expiring: Data = { message: 'expiring', timestamp: Date.now() };
+
+    const expired = firstValueFrom(
+      instance.expired().pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        timeout(10000)
+      )
+    );
+    await firstValueFrom(instance.store(kept));
+    await firstValueFrom(
+      instance.store({ ...expiring, __expires: CloudProvider.TIME() + 1 })
+    );
+
+    expect(await expired).toEqual(expiring);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([kept]);
+  });
+
+  test('shares-the-log', async () => {
+    // Two providers on the same log, as two processes would be
+    const writer = await firstValueFrom(
+      new File(testId(), { directory }).init()
+    );
+    const reader = await firstValueFrom(
+      new File(testId(), { directory }).init()
+    );
+    const item: Data = { message: 'shared', timestamp: Date.now() };
+
+    const received = firstValueFrom(
+      reader.stream().pipe(
+        map((event) => reader.unmarshall<Data>(event)),
+        filter((data) => data.message === 'shared'),
+        timeout(10000)
+      )
+    );
+    await wait(100);
+    await firstValueFrom(writer.store(item));
+
+    expect(await received).toEqual(item);
+  });
+});
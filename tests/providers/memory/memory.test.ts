@@ -0,0 +1,305 @@
+import { CloudProvider, Filter, Memory, RichJsonCodec } from 'cloudrx';
+import { testId } from '../../setup';
+import {
+  firstValueFrom,
+  lastValueFrom,
+  map,
+  merge,
+  take,
+  takeUntil,
+  timeout,
+  timer,
+  toArray,
+} from 'rxjs';
+
+describe('memory', () => {
+  type Data = { message: string; timestamp: number };
+
+  const wait = (ms: number): Promise<void> =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeAll(() => {
+    CloudProvider.DEFAULT_LOGGER = console;
+  });
+
+  afterAll(() => {
+    CloudProvider.abort('Tests complete');
+  });
+
+  test('is-a-singleton', async () => {
+    const instance1 = await firstValueFrom(Memory.from(testId()));
+    const instance2 = await firstValueFrom(Memory.from(testId()));
+    expect(instance1).toBe(instance2);
+  });
+
+  test('expired-items-leave-snapshots', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const kept: Data = { message: 'kept', timestamp: Date.now() };
+    const expiring: Data = { message: 'expiring', timestamp: Date.now() };
+
+    await firstValueFrom(instance.store(kept));
+    await firstValueFrom(
+      instance.store({ ...expiring, __expires: CloudProvider.TIME() + 1 })
+    );
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([
+      expiring,
+      kept,
+    ]);
+
+    await wait(2500);
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([kept]);
+  });
+
+  test('expired-items-are-removed', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const expiring: Data = { message: 'expiring', timestamp: Date.now() };
+
+    // Nothing schedules the expiration; the sweeper removes the record
+    const expired = firstValueFrom(
+      instance.expired().pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        timeout(5000)
+      )
+    );
+    await firstValueFrom(
+      instance.store({ ...expiring, __expires: CloudProvider.TIME() + 1 })
+    );
+
+    expect(await expired).toEqual(expiring);
+  });
+
+  test('keeps-items-expiring-far-in-the-future', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const item: Data = { message: 'kept', timestamp: Date.now() };
+
+    // Listening schedules the expiration, past the longest timer delay
+    const removals = lastValueFrom(
+      merge(instance.expired(), instance.removed()).pipe(
+        takeUntil(timer(3000)),
+        toArray()
+      )
+    );
+    await firstValueFrom(
+      instance.store({ ...item, __expires: CloudProvider.TIME() + 30 * 86400 })
+    );
+
+    expect(await removals).toEqual([]);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([item]);
+  });
+
+  test('holds-items-scheduled-far-in-the-future', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+
+    // The emission is past the longest timer delay
+    const emitted = lastValueFrom(
+      instance.stream().pipe(takeUntil(timer(3000)), toArray())
+    );
+    await firstValueFrom(
+      instance.store({
+        message: 'scheduled',
+        timestamp: Date.now(),
+        __emits: CloudProvider.TIME() + 30 * 86400,
+      })
+    );
+
+    expect(await emitted).toEqual([]);
+  });
+
+  test('stores-an-already-expired-item', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const expired = {
+      message: 'expired',
+      timestamp: Date.now(),
+      __expires: CloudProvider.TIME() - 1,
+    };
+
+    // The stream drops the item's event, which must still acknowledge it
+    expect(
+      await firstValueFrom(instance.store(expired).pipe(timeout(5000)))
+    ).toEqual(expired);
+  });
+
+  test('removes-an-item', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const item: Data = { message: 'removed', timestamp: Date.now() };
+    await firstValueFrom(instance.store(item));
+
+    const marker = await firstValueFrom(
+      instance.stream(true).pipe(
+        map((event) => instance.marker(event)),
+        take(1)
+      )
+    );
+    const removed = firstValueFrom(
+      instance.removed().pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        timeout(5000)
+      )
+    );
+
+    expect(await firstValueFrom(instance.remove<Data>(marker))).toEqual(item);
+    expect(await removed).toEqual(item);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([]);
+  });
+
+  test('filters-snapshots', async () => {
+    type Order = {
+      id: string;
+      total: number;
+      note?: string;
+      customer: { name: string; region: string };
+    };
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const a: Order = {
+      id: 'order-a',
+      total: 10,
+      note: 'gift',
+      customer: { name: 'ada', region: 'eu' },
+    };
+    const b: Order = {
+      id: 'order-b',
+      total: 20,
+      customer: { name: 'bob', region: 'us' },
+    };
+    const c: Order = {
+      id: 'invoice-c',
+      total: 30,
+      customer: { name: 'cy', region: 'eu' },
+    };
+    for (const order of [a, b, c]) {
+      await firstValueFrom(instance.store(order));
+    }
+
+    const snapshot = (filter: Filter<Order>): Promise<Order[]> =>
+      lastValueFrom(instance.snapshot<Order>(filter));
+
+    expect(await snapshot({ total: { $gt: 10 } })).toEqual([c, b]);
+    expect(await snapshot({ total: { $gte: 10, $lt: 30 } })).toEqual([b, a]);
+    expect(await snapshot({ total: { $between: [15, 30] } })).toEqual([c, b]);
+    expect(await snapshot({ id: { $beginsWith: 'order-' } })).toEqual([b, a]);
+    expect(await snapshot({ 'customer.name': { $in: ['ada', 'cy'] } })).toEqual(
+      [c, a]
+    );
+    expect(await snapshot({ note: { $exists: true } })).toEqual([a]);
+    expect(await snapshot({ note: { $ne: 'gift' } })).toEqual([c, b]);
+    expect(
+      await snapshot({ 'customer.region': 'eu', total: { $lt: 20 } })
+    ).toEqual([a]);
+  });
+
+  test('round-trips-values-with-a-codec', async () => {
+    type Session = { user: string; started: Date; roles: Set<string> };
+    const instance = await firstValueFrom(
+      Memory.from(testId(), { codec: new RichJsonCodec() })
+    );
+    const session: Session = {
+      user: 'ada',
+      started: new Date('2024-01-01T00:00:00.000Z'),
+      roles: new Set(['admin']),
+    };
+
+    const stored = await firstValueFrom(instance.store(session));
+    expect(stored).toEqual(session);
+    expect(stored.started).toBeInstanceOf(Date);
+
+    const [snapshot] = await lastValueFrom(instance.snapshot<Session>({}));
+    expect(snapshot?.roles).toEqual(new Set(['admin']));
+  });
+
+  test('stores-idempotently', async () => {
+    const instance = await firstValueFrom(
+      Memory.from(testId(), { idempotent: true })
+    );
+    const hashFn = (): string => 'event-1';
+    const first: Data = { message: 'first', timestamp: 1 };
+    const retry: Data = { message: 'retry', timestamp: 2 };
+
+    expect(await firstValueFrom(instance.store({ ...first, hashFn }))).toEqual(
+      first
+    );
+    // A retry of the same key resolves to the stored item
+    expect(await firstValueFrom(instance.store({ ...retry, hashFn }))).toEqual(
+      first
+    );
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([first]);
+    const events = await lastValueFrom(
+      instance.stream(true).pipe(takeUntil(timer(1500)), toArray())
+    );
+    expect(events).toHaveLength(1);
+  });
+
+  test('stores-idempotently-over-an-expired-item', async () => {
+    // Expired records are swept long after this test ends
+    const instance = await firstValueFrom(
+      Memory.from(testId(), { idempotent: true, delays: { emission: 60000 } })
+    );
+    const hashFn = (): string => 'event-1';
+    const expired = {
+      message: 'expired',
+      timestamp: 1,
+      __expires: CloudProvider.TIME() - 1,
+    };
+    const retry: Data = { message: 'retry', timestamp: 2 };
+
+    await firstValueFrom(instance.store({ ...expired, hashFn }));
+    // The expired item is still held, but no longer blocks the key
+    expect(await firstValueFrom(instance.store({ ...retry, hashFn }))).toEqual(
+      retry
+    );
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([retry]);
+  });
+
+  test('trims-the-stream-after-retention', async () => {
+    const instance = await firstValueFrom(
+      Memory.from(testId(), { retention: 1000 })
+    );
+    const item: Data = { message: 'retained', timestamp: Date.now() };
+    await firstValueFrom(instance.store(item));
+
+    await wait(2500);
+
+    // The record is still stored, but no longer in the stream
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([item]);
+    const replayed = await lastValueFrom(
+      instance
+        .stream(true)
+        .pipe(take(1), timeout({ first: 2000, with: () => [] }), toArray())
+    );
+    expect(replayed).toEqual([]);
+  });
+
+  test('checkpoints-after-scheduled-events-are-delivered', async () => {
+    const instance = await firstValueFrom(Memory.from(testId()));
+    const checkpoint = 'scheduled';
+    const messages = (all: boolean, count: number): Promise<string[]> =>
+      lastValueFrom(
+        instance.stream(all, checkpoint).pipe(
+          map((event) => instance.unmarshall<Data>(event).message),
+          take(count),
+          toArray(),
+          timeout(8000)
+        )
+      );
+
+    // Stop consuming before the scheduled item has been delivered
+    const first = messages(true, 1);
+    await firstValueFrom(
+      instance.store({
+        message: 'scheduled',
+        timestamp: Date.now(),
+        __emits: CloudProvider.TIME() + 3,
+      })
+    );
+    await firstValueFrom(
+      instance.store({ message: 'immediate', timestamp: Date.now() })
+    );
+    expect(await first).toEqual(['immediate']);
+    await wait(1000);
+
+    // The consumer resumes before the scheduled item
+    expect(await messages(true, 2)).toEqual(['immediate', 'scheduled']);
+  });
+});
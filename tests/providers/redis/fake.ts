@@ -0,0 +1,274 @@
+import { RedisClient, RedisStreamEntry } from 'cloudrx';
+import { lauxlib, lua, lualib, to_luastring } from 'fengari';
+
+const compare = (a: string, b: string): number => {
+  const [aMs = 0, aSeq = 0] = a.split('-').map(Number);
+  const [bMs = 0, bSeq = 0] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+};
+
+/** Whether a member is within a lexical range bound (`-`, `+`, `(x`, `[x`) */
+const within = (member: string, bound: string, above: boolean): boolean => {
+  if (bound === '-') return above;
+  if (bound === '+') return !above;
+  const value = bound.slice(1);
+  const inclusive = bound.startsWith('[');
+  if (member === value) return inclusive;
+  return above ? member > value : member < value;
+};
+
+/**
+ * In-memory implementation of the Redis commands used by the provider, so
+ * tests run without a Redis server. Share one instance between providers to
+ * simulate several processes sharing a server. The provider's Lua scripts
+ * run in a Lua VM, calling these commands atomically like Redis runs them.
+ */
+export class FakeRedis implements RedisClient {
+  private streams = new Map<string, RedisStreamEntry[]>();
+  private hashes = new Map<string, Map<string, string>>();
+  private zsets = new Map<string, Map<string, number>>();
+  private last = { ms: 0, seq: 0 };
+
+  private stream(key: string): RedisStreamEntry[] {
+    const stream = this.streams.get(key) || [];
+    this.streams.set(key, stream);
+    return stream;
+  }
+
+  private hash(key: string): Map<string, string> {
+    const hash = this.hashes.get(key) || new Map<string, string>();
+    this.hashes.set(key, hash);
+    return hash;
+  }
+
+  private zset(key: string): Map<string, number> {
+    const zset = this.zsets.get(key) || new Map<string, number>();
+    this.zsets.set(key, zset);
+    return zset;
+  }
+
+  private xadd(key: string, fields: Record<string, string>): string {
+    const ms = Date.now();
+    this.last =
+      ms > this.last.ms
+        ? { ms, seq: 0 }
+        : { ...this.last, seq: this.last.seq + 1 };
+    const id = `${this.last.ms}-${this.last.seq}`;
+    this.stream(key).push([id, { ...fields }]);
+    return id;
+  }
+
+  async xread(
+    key: string,
+    id: string,
+    count: number
+  ): Promise<RedisStreamEntry[]> {
+    return this.stream(key)
+      .filter(([entry]) => compare(entry, id) > 0)
+      .slice(0, count);
+  }
+
+  async xrevrange(
+    key: string,
+    _end: string,
+    _start: string,
+    count: number
+  ): Promise<RedisStreamEntry[]> {
+    return [...this.stream(key)].reverse().slice(0, count);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.hash(key).get(field) ?? null;
+  }
+
+  async hmget(key: string, fields: string[]): Promise<(string | null)[]> {
+    return fields.map((field) => this.hash(key).get(field) ?? null);
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number
+  ): Promise<string[]> {
+    return [...this.zset(key)]
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([, a], [, b]) => a - b)
+      .map(([member]) => member);
+  }
+
+  async zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    count?: number
+  ): Promise<string[]> {
+    const members = [...this.zset(key).keys()]
+      .filter((m) => within(m, min, true) && within(m, max, false))
+      .sort();
+    return count !== undefined ? members.slice(0, count) : members;
+  }
+
+  async zrevrangebylex(
+    key: string,
+    max: string,
+    min: string,
+    count?: number
+  ): Promise<string[]> {
+    const members = [...this.zset(key).keys()]
+      .filter((m) => within(m, min, true) && within(m, max, false))
+      .sort()
+      .reverse();
+    return count !== undefined ? members.slice(0, count) : members;
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    return this.zset(key).delete(member) ? 1 : 0;
+  }
+
+  async eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    return run(script, keys, args, (command, [key = '', ...rest]) => {
+      switch (command.toUpperCase()) {
+        case 'XADD': {
+          // The ID is always `*`
+          const [, ...fields] = rest;
+          return this.xadd(key, Object.fromEntries(pairs(fields)));
+        }
+        case 'XTRIM':
+          // Always MINID
+          return this.xtrim(key, rest[1] ?? '');
+        case 'HGET':
+          return this.hash(key).get(rest[0] ?? '') ?? null;
+        case 'HSET':
+          this.hash(key).set(rest[0] ?? '', rest[1] ?? '');
+          return 1;
+        case 'HDEL':
+          return this.hash(key).delete(rest[0] ?? '') ? 1 : 0;
+        case 'ZADD':
+          this.zset(key).set(rest[1] ?? '', Number(rest[0]));
+          return 1;
+        case 'ZREM':
+          return this.zset(key).delete(rest[0] ?? '') ? 1 : 0;
+      }
+      throw new Error(`Unsupported command in a script: ${command}`);
+    });
+  }
+
+  /** XTRIM key MINID minid */
+  private xtrim(key: string, minid: string): number {
+    const stream = this.stream(key);
+    if (!minid) {
+      return 0;
+    }
+    const kept = stream.filter(([id]) => compare(id, minid) >= 0);
+    this.streams.set(key, kept);
+    return stream.length - kept.length;
+  }
+}
+
+const pairs = (values: string[]): [string, string][] =>
+  values.flatMap((value, i) =>
+    i % 2 === 0 ? [[value, values[i + 1] ?? ''] as [string, string]] : []
+  );
+
+/** A command reply, where a nil reply is null */
+type Reply = string | number | null;
+
+/**
+ * Run a script as Redis does, with KEYS and ARGV tables, `redis.call` and
+ * `cjson.decode`. Redis embeds Lua 5.1 and fengari is Lua 5.3, so the
+ * global `unpack` is added back.
+ */
+const run = (
+  script: string,
+  keys: string[],
+  args: string[],
+  call: (command: string, args: string[]) => Reply
+): Reply => {
+  const L = lauxlib.luaL_newstate();
+  lualib.luaL_openlibs(L);
+
+  const push = (value: unknown): void => {
+    if (typeof value === 'string') {
+      lua.lua_pushstring(L, to_luastring(value));
+    } else if (typeof value === 'number') {
+      if (Number.isInteger(value)) {
+        lua.lua_pushinteger(L, value);
+      } else {
+        lua.lua_pushnumber(L, value);
+      }
+    } else if (typeof value === 'boolean') {
+      lua.lua_pushboolean(L, value);
+    } else if (Array.isArray(value)) {
+      lua.lua_createtable(L, value.length, 0);
+      value.forEach((element, i) => {
+        push(element);
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+    } else if (value && typeof value === 'object') {
+      lua.lua_createtable(L, 0, 0);
+      Object.entries(value).forEach(([field, element]) => {
+        push(element);
+        lua.lua_setfield(L, -2, to_luastring(field));
+      });
+    } else {
+      lua.lua_pushnil(L);
+    }
+  };
+  // Set a function on the table at the top of the stack
+  const fn = (name: string, body: (values: string[]) => void): void => {
+    lua.lua_pushjsfunction(L, (L) => {
+      const values = Array.from({ length: lua.lua_gettop(L) }, (_, i) =>
+        lua.lua_tojsstring(L, i + 1)
+      );
+      try {
+        body(values);
+      } catch (error) {
+        return lauxlib.luaL_error(
+          L,
+          to_luastring('%s'),
+          to_luastring(`${error}`)
+        );
+      }
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring(name));
+  };
+
+  push(keys);
+  lua.lua_setglobal(L, to_luastring('KEYS'));
+  push(args);
+  lua.lua_setglobal(L, to_luastring('ARGV'));
+
+  lua.lua_createtable(L, 0, 1);
+  fn('call', ([command = '', ...values]) => {
+    // A nil reply is false in Lua
+    const reply = call(command, values);
+    push(reply === null ? false : reply);
+  });
+  lua.lua_setglobal(L, to_luastring('redis'));
+
+  lua.lua_createtable(L, 0, 1);
+  fn('decode', ([json = '']) => push(JSON.parse(json)));
+  lua.lua_setglobal(L, to_luastring('cjson'));
+
+  lua.lua_getglobal(L, to_luastring('table'));
+  lua.lua_getfield(L, -1, to_luastring('unpack'));
+  lua.lua_setglobal(L, to_luastring('unpack'));
+  lua.lua_pop(L, 1);
+
+  if (
+    lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK ||
+    lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK
+  ) {
+    throw new Error(`Script failed: ${lua.lua_tojsstring(L, -1)}`);
+  }
+
+  switch (lua.lua_type(L, -1)) {
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, -1);
+    case lua.LUA_TNUMBER:
+      return lua.lua_tonumber(L, -1);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,46 @@
+/** The parts of fengari (a Lua VM in JavaScript) that the fake Redis uses */
+declare module 'fengari' {
+  type LuaState = object;
+  type LuaString = Uint8Array;
+
+  export const lua: {
+    LUA_OK: number;
+    LUA_TNUMBER: number;
+    LUA_TSTRING: number;
+    lua_createtable(L: LuaState, narr: number, nrec: number): void;
+    lua_getfield(L: LuaState, idx: number, k: LuaString): number;
+    lua_getglobal(L: LuaState, name: LuaString): number;
+    lua_gettop(L: LuaState): number;
+    lua_pcall(
+      L: LuaState,
+      nargs: number,
+      nresults: number,
+      msgh: number
+    ): number;
+    lua_pop(L: LuaState, n: number): void;
+    lua_pushboolean(L: LuaState, b: boolean): void;
+    lua_pushinteger(L: LuaState, n: number): void;
+    lua_pushjsfunction(L: LuaState, fn: (L: LuaState) => number): void;
+    lua_pushnil(L: LuaState): void;
+    lua_pushnumber(L: LuaState, n: number): void;
+    lua_pushstring(L: LuaState, s: LuaString): void;
+    lua_rawseti(L: LuaState, idx: number, n: number): void;
+    lua_setfield(L: LuaState, idx: number, k: LuaString): void;
+    lua_setglobal(L: LuaState, name: LuaString): void;
+    lua_tojsstring(L: LuaState, idx: number): string;
+    lua_tonumber(L: LuaState, idx: number): number;
+    lua_type(L: LuaState, idx: number): number;
+  };
+
+  export const lauxlib: {
+    luaL_error(L: LuaState, fmt: LuaString, ...args: LuaString[]): number;
+    luaL_loadstring(L: LuaState, s: LuaString): number;
+    luaL_newstate(): LuaState;
+  };
+
+  export const lualib: {
+    luaL_openlibs(L: LuaState): void;
+  };
+
+  export function to_luastring(s: string): LuaString;
+}
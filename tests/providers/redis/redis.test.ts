@@ -0,0 +1,195 @@
+import { CloudProvider, Redis, RedisOptions } from 'cloudrx';
+import { testId } from '../../setup';
+import { FakeRedis } from './fake';
+import {
+  filter,
+  firstValueFrom,
+  lastValueFrom,
+  map,
+  take,
+  timeout,
+  toArray,
+} from 'rxjs';
+
+describe('redis', () => {
+  type Data = { message: string; timestamp: number };
+
+  let options: RedisOptions;
+
+  beforeAll(() => {
+    CloudProvider.DEFAULT_LOGGER = console;
+  });
+
+  beforeEach(() => {
+    options = { client: new FakeRedis(), pollInterval: 100 };
+  });
+
+  afterAll(() => {
+    CloudProvider.abort('Tests complete');
+  });
+
+  test('is-a-singleton', async () => {
+    const instance1 = await firstValueFrom(Redis.from(testId(), options));
+    const instance2 = await firstValueFrom(Redis.from(testId(), options));
+    expect(instance1).toBe(instance2);
+    expect(instance1.streamKey).toBe(`{cloudrx-${testId()}}`);
+  });
+
+  test('keeps-its-keys-in-one-cluster-slot', async () => {
+    const client = new FakeRedis();
+    const evaluated = jest.spyOn(client, 'eval');
+    const instance = await firstValueFrom(
+      Redis.from(testId(), { ...options, client })
+    );
+    await firstValueFrom(
+      instance.store({ message: 'tagged', timestamp: Date.now() })
+    );
+
+    // Redis Cluster hashes only the tag, so a script's keys share a slot
+    const [[, keys]] = evaluated.mock.calls as [[string, string[], string[]]];
+    expect(keys.length).toBeGreaterThan(1);
+    keys.forEach((key) => {
+      expect(key.match(/\{(.*?)\}/)?.[1]).toBe(`cloudrx-${testId()}`);
+    });
+  });
+
+  test('requires-a-client', () => {
+    expect(() => new Redis(testId(), {})).toThrow('A Redis client is required');
+  });
+
+  test('stores-items', async () => {
+    const instance = await firstValueFrom(Redis.from(testId(), options));
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+
+    const stored = await Promise.all(
+      items.map((item) => firstValueFrom(instance.store(item)))
+    );
+
+    expect(stored).toEqual(items);
+  });
+
+  test('snapshot-filter', async () => {
+    const instance = await firstValueFrom(Redis.from(testId(), options));
+    const first: Data = { message: 'first', timestamp: 1 };
+    const second: Data = { message: 'second', timestamp: 2 };
+    await firstValueFrom(instance.store(first));
+    await firstValueFrom(instance.store(second));
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([
+      second,
+      first,
+    ]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ message: 'first' }))
+    ).toEqual([first]);
+  });
+
+  test('replays-all-with-stream-ids', async () => {
+    const instance = await firstValueFrom(Redis.from(testId(), options));
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+    for (const item of items) {
+      await firstValueFrom(instance.store(item));
+    }
+
+    const replayed = await lastValueFrom(
+      instance.stream(true).pipe(take(2), toArray())
+    );
+    expect(replayed.map((event) => instance.unmarshall<Data>(event))).toEqual(
+      items
+    );
+    replayed.forEach((event) =>
+      expect(instance.marker(event)).toMatch(/^\d+-\d+$/)
+    );
+  });
+
+  test('removes-an-item', async () => {
+    const instance = await firstValueFrom(Redis.from(testId(), options));
+    const item: Data = { message: 'removed', timestamp: Date.now() };
+    await firstValueFrom(instance.store(item));
+
+    const marker = await firstValueFrom(
+      instance.stream(true).pipe(
+        map((event) => instance.marker(event)),
+        take(1)
+      )
+    );
+
+    expect(await firstValueFrom(instance.remove<Data>(marker))).toEqual(item);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([]);
+    // Snapshots no longer page over its position
+    expect(
+      await instance.client.zrangebylex(
+        `${instance.streamKey}:positions`,
+        '-',
+        '+'
+      )
+    ).toEqual([]);
+  });
+
+  test('sweeps-expired-items', async () => {
+    const instance = await firstValueFrom(Redis.from(testId(), options));
+    const kept: Data = { message: 'kept', timestamp: Date.now() };
+    const expiring: Data = { message: 'expiring', timestamp: Date.now() };
+
+    const expired = firstValueFrom(
+      instance.expired().pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        filter((data) => data.message === 'expiring'),
+        timeout(10000)
+      )
+    );
+    await firstValueFrom(instance.store(kept));
+    await firstValueFrom(
+      instance.store({ ...expiring, __expires: CloudProvider.TIME() + 1 })
+    );
+
+    expect(await expired).toEqual(expiring);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([kept]);
+  });
+
+  test('shares-the-server', async () => {
+    // Two providers on the same server, as two processes would be
+    const writer = await firstValueFrom(new Redis(testId(), options).init());
+    const reader = await firstValueFrom(new Redis(testId(), options).init());
+    const item: Data = { message: 'shared', timestamp: Date.now() };
+
+    const received = firstValueFrom(
+      reader.stream().pipe(
+        map((event) => reader.unmarshall<Data>(event)),
+        filter((data) => data.message === 'shared'),
+        timeout(10000)
+      )
+    );
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await firstValueFrom(writer.store(item));
+
+    expect(await received).toEqual(item);
+  });
+
+  test('trims-the-stream-after-retention', async () => {
+    const instance = await firstValueFrom(
+      Redis.from(testId(), { ...options, retention: 1000 })
+    );
+    const old: Data = { message: 'old', timestamp: Date.now() };
+    const recent: Data = { message: 'recent', timestamp: Date.now() };
+    await firstValueFrom(instance.store(old));
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    await firstValueFrom(instance.store(recent));
+
+    // Both are still stored, but only the recent one is in the stream
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toHaveLength(2);
+    const replayed = await firstValueFrom(
+      instance.stream(true).pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        timeout(5000)
+      )
+    );
+    expect(replayed).toEqual(recent);
+  });
+});
@@ -0,0 +1,199 @@
+import { CloudProvider, SQLite, SQLiteOptions } from 'cloudrx';
+import { testId } from '../../setup';
+import { mkdtempSync, rmSync } from 'fs';
+import { isBuiltin } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  filter,
+  firstValueFrom,
+  lastValueFrom,
+  map,
+  take,
+  timeout,
+  toArray,
+} from 'rxjs';
+
+// node:sqlite ships with Node.js >= 22.5
+const describeSQLite = isBuiltin('node:sqlite') ? describe : describe.skip;
+
+describeSQLite('sqlite', () => {
+  type Data = { message: string; timestamp: number; done?: boolean };
+
+  let directory: string;
+  let options: SQLiteOptions;
+
+  beforeAll(() => {
+    CloudProvider.DEFAULT_LOGGER = console;
+    directory = mkdtempSync(join(tmpdir(), 'cloudrx-sqlite-'));
+    options = { path: join(directory, 'test.sqlite') };
+  });
+
+  afterAll(() => {
+    CloudProvider.abort('Tests complete');
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('is-a-singleton', async () => {
+    const instance1 = await firstValueFrom(SQLite.from(testId(), options));
+    const instance2 = await firstValueFrom(SQLite.from(testId(), options));
+    expect(instance1).toBe(instance2);
+    expect(instance1.tableName).toBe(`cloudrx-${testId()}`);
+  });
+
+  test('stores-items', async () => {
+    const instance = await firstValueFrom(SQLite.from(testId(), options));
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+
+    const stored = await Promise.all(
+      items.map((item) => firstValueFrom(instance.store(item)))
+    );
+
+    expect(stored).toEqual(items);
+  });
+
+  test('snapshot-filter', async () => {
+    const instance = await firstValueFrom(SQLite.from(testId(), options));
+    const first: Data = { message: 'first', timestamp: 1, done: true };
+    const second: Data = { message: 'second', timestamp: 2, done: false };
+    await firstValueFrom(instance.store(first));
+    await firstValueFrom(instance.store(second));
+
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([
+      second,
+      first,
+    ]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ message: 'first' }))
+    ).toEqual([first]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ timestamp: 2 }))
+    ).toEqual([second]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ done: true }))
+    ).toEqual([first]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ timestamp: { $gt: 1 } }))
+    ).toEqual([second]);
+    expect(
+      await lastValueFrom(
+        instance.snapshot<Data>({ message: { $beginsWith: 'fi' } })
+      )
+    ).toEqual([first]);
+    expect(
+      await lastValueFrom(instance.snapshot<Data>({ done: { $in: [false] } }))
+    ).toEqual([second]);
+    expect(
+      await lastValueFrom(
+        instance.snapshot<Data>({ message: { $ne: 'first' } })
+      )
+    ).toEqual([second]);
+  });
+
+  test('snapshot-pages', async () => {
+    const instance = await firstValueFrom(SQLite.from(testId(), options));
+    const items: Data[] = [1, 2, 3].map((timestamp) => ({
+      message: `page-${timestamp}`,
+      timestamp,
+    }));
+    for (const item of items) {
+      await firstValueFrom(instance.store(item));
+    }
+
+    const first = await lastValueFrom(
+      instance.snapshot<Data>({}, { limit: 2 })
+    );
+    expect(first.items).toEqual([items[2], items[1]]);
+    expect(first.cursor).toBeDefined();
+
+    const second = await lastValueFrom(
+      instance.snapshot<Data>({}, { limit: 2, cursor: first.cursor })
+    );
+    expect(second).toEqual({ items: [items[0]] });
+
+    expect(
+      await lastValueFrom(
+        instance.snapshot$<Data>({}, { limit: 1, order: 'asc' }).pipe(toArray())
+      )
+    ).toEqual(items);
+  });
+
+  test('replays-all', async () => {
+    const instance = await firstValueFrom(SQLite.from(testId(), options));
+    const items: Data[] = [
+      { message: 'first', timestamp: Date.now() },
+      { message: 'second', timestamp: Date.now() },
+    ];
+    for (const item of items) {
+      await firstValueFrom(instance.store(item));
+    }
+
+    const replayed = await lastValueFrom(
+      instance.stream(true).pipe(
+        take(2),
+        map((event) => instance.unmarshall<Data>(event)),
+        toArray()
+      )
+    );
+    expect(replayed).toEqual(items);
+  });
+
+  test('removes-an-item', async () => {
+    const instance = await firstValueFrom(SQLite.from(testId(), options));
+    const item: Data = { message: 'removed', timestamp: Date.now() };
+    await firstValueFrom(instance.store(item));
+
+    const marker = await firstValueFrom(
+      instance.stream(true).pipe(
+        map((event) => instance.marker(event)),
+        take(1)
+      )
+    );
+
+    expect(await firstValueFrom(instance.remove<Data>(marker))).toEqual(item);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([]);
+  });
+
+  test('sweeps-expired-items', async () => {
+    const instance = await firstValueFrom(SQLite.from(testId(), options));
+    const kept: Data = { message: 'kept', timestamp: Date.now() };
+    const expiring: Data = { message: 'expiring', timestamp: Date.now() };
+
+    const expired = firstValueFrom(
+      instance.expired().pipe(
+        map((event) => instance.unmarshall<Data>(event)),
+        filter((data) => data.message === 'expiring'),
+        timeout(10000)
+      )
+    );
+    await firstValueFrom(instance.store(kept));
+    await firstValueFrom(
+      instance.store({ ...expiring, __expires: CloudProvider.TIME() + 1 })
+    );
+
+    expect(await expired).toEqual(expiring);
+    expect(await lastValueFrom(instance.snapshot<Data>({}))).toEqual([kept]);
+  });
+
+  test('shares-the-database', async () => {
+    // Two providers on the same database, as two processes would be
+    const writer = await firstValueFrom(new SQLite(testId(), options).init());
+    const reader = await firstValueFrom(new SQLite(testId(), options).init());
+    const item: Data = { message: 'shared', timestamp: Date.now() };
+
+    const received = firstValueFrom(
+      reader.stream().pipe(
+        map((event) => reader.unmarshall<Data>(event)),
+        filter((data) => data.message === 'shared'),
+        timeout(10000)
+      )
+    );
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await firstValueFrom(writer.store(item));
+
+    expect(await received).toEqual(item);
+  });
+});
@@ -0,0 +1,139 @@
+import { firstValueFrom, lastValueFrom, Observable, toArray } from 'rxjs';
+import { DynamoDBLocalContainer } from '../providers/aws/dynamodb/local';
+import {
+  CloudAsyncSubject,
+  CloudProvider,
+  DynamoDB,
+  DynamoDBOptions,
+  ICloudProvider,
+  Memory,
+} from 'cloudrx';
+import { testId } from '../setup';
+
+type Result = { status: string; count: number };
+
+describe('cloud-async', () => {
+  beforeAll(() => {
+    CloudProvider.DEFAULT_LOGGER = console;
+  });
+
+  afterAll(() => {
+    CloudProvider.abort('Tests complete');
+  });
+
+  const last = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const subject = new CloudAsyncSubject<Result>(provider$);
+    const emitted = lastValueFrom(subject.pipe(toArray()));
+
+    subject.next({ status: 'running', count: 1 });
+    subject.next({ status: 'running', count: 2 });
+    subject.next({ status: 'done', count: 3 });
+    subject.complete();
+
+    expect(await emitted).toEqual([{ status: 'done', count: 3 }]);
+  };
+
+  const handoff = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    // A consumer that subscribes before the producer completes
+    const early = new CloudAsyncSubject<Result>(provider$);
+    const earlyResult = lastValueFrom(early);
+
+    const producer = new CloudAsyncSubject<Result>(provider$);
+    producer.next({ status: 'done', count: 42 });
+    producer.complete();
+    await lastValueFrom(producer);
+
+    // A consumer that subscribes after the producer completed
+    const late = new CloudAsyncSubject<Result>(provider$);
+
+    expect(await earlyResult).toEqual({ status: 'done', count: 42 });
+    expect(await lastValueFrom(late)).toEqual({ status: 'done', count: 42 });
+  };
+
+  const producers = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const first = new CloudAsyncSubject<Result>(provider$);
+    first.next({ status: 'done', count: 1 });
+    first.complete();
+    expect(await lastValueFrom(first)).toEqual({ status: 'done', count: 1 });
+
+    // A second producer's value isn't stored over the first
+    const second = new CloudAsyncSubject<Result>(provider$);
+    second.next({ status: 'done', count: 2 });
+    second.complete();
+    expect(await lastValueFrom(second)).toEqual({ status: 'done', count: 1 });
+
+    const late = new CloudAsyncSubject<Result>(provider$);
+    expect(await lastValueFrom(late)).toEqual({ status: 'done', count: 1 });
+  };
+
+  const incomplete = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const subject = new CloudAsyncSubject<Result>(provider$);
+    subject.next({ status: 'running', count: 1 });
+
+    // Give the provider a chance to (incorrectly) store the value
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    const provider = await firstValueFrom(provider$);
+    expect(await lastValueFrom(provider.snapshot<Result>({}))).toEqual([]);
+    subject.unsubscribe();
+  };
+
+  describe('memory', () => {
+    test('last', async () => {
+      await last(Memory.from(testId()));
+    });
+
+    test('handoff', async () => {
+      await handoff(Memory.from(testId()));
+    });
+
+    test('producers', async () => {
+      await producers(Memory.from(testId(), { idempotent: true }));
+    });
+
+    test('incomplete', async () => {
+      await incomplete(Memory.from(testId()));
+    });
+  });
+
+  describe('dynamodb', () => {
+    let container: DynamoDBLocalContainer;
+    let options: DynamoDBOptions = {};
+
+    beforeAll(async () => {
+      container = new DynamoDBLocalContainer();
+      await container.start();
+      options.client = container.getClient();
+    });
+
+    afterAll(async () => {
+      await container.stop();
+    });
+
+    test('last', async () => {
+      await last(DynamoDB.from(testId(), options));
+    });
+
+    test('handoff', async () => {
+      await handoff(DynamoDB.from(testId(), options));
+    });
+
+    test('producers', async () => {
+      await producers(
+        DynamoDB.from(testId(), { ...options, idempotent: true })
+      );
+    });
+
+    test('incomplete', async () => {
+      await incomplete(DynamoDB.from(testId(), options));
+    });
+  });
+});
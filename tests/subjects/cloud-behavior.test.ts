@@ -0,0 +1,124 @@
+import { filter, firstValueFrom, Observable } from 'rxjs';
+import { DynamoDBLocalContainer } from '../providers/aws/dynamodb/local';
+import {
+  CloudBehaviorSubject,
+  CloudProvider,
+  DynamoDB,
+  DynamoDBOptions,
+  ICloudProvider,
+  Memory,
+} from 'cloudrx';
+import { testId } from '../setup';
+
+type State = { status: string; count: number };
+
+const INITIAL: State = { status: 'initial', count: 0 };
+
+describe('cloud-behavior', () => {
+  beforeAll(() => {
+    CloudProvider.DEFAULT_LOGGER = console;
+  });
+
+  afterAll(() => {
+    CloudProvider.abort('Tests complete');
+  });
+
+  const reached = (
+    subject: CloudBehaviorSubject<State>,
+    count: number
+  ): Promise<State> =>
+    firstValueFrom(subject.pipe(filter((state) => state.count === count)));
+
+  const initial = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const subject = new CloudBehaviorSubject<State>(provider$, INITIAL);
+    expect(subject.getValue()).toEqual(INITIAL);
+
+    // Nothing stored yet, so the initial value stands after hydration
+    await firstValueFrom(provider$);
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    expect(subject.getValue()).toEqual(INITIAL);
+    subject.unsubscribe();
+  };
+
+  const hydrated = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const writer = new CloudBehaviorSubject<State>(provider$, INITIAL);
+    writer.next({ status: 'first', count: 1 });
+    await reached(writer, 1);
+    writer.next({ status: 'second', count: 2 });
+    await reached(writer, 2);
+    writer.unsubscribe();
+
+    // A new subject (e.g. after a restart) starts from the stored value
+    const reader = new CloudBehaviorSubject<State>(provider$, INITIAL);
+    expect(await reached(reader, 2)).toEqual({ status: 'second', count: 2 });
+    expect(reader.getValue()).toEqual({ status: 'second', count: 2 });
+    reader.unsubscribe();
+  };
+
+  const converged = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const a = new CloudBehaviorSubject<State>(provider$, INITIAL);
+    const b = new CloudBehaviorSubject<State>(provider$, INITIAL);
+
+    // Let both subjects start streaming before writing
+    await firstValueFrom(provider$);
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    a.next({ status: 'from-a', count: 1 });
+    await Promise.all([reached(a, 1), reached(b, 1)]);
+
+    b.next({ status: 'from-b', count: 2 });
+    await Promise.all([reached(a, 2), reached(b, 2)]);
+
+    expect(a.getValue()).toEqual({ status: 'from-b', count: 2 });
+    expect(b.getValue()).toEqual({ status: 'from-b', count: 2 });
+    a.unsubscribe();
+    b.unsubscribe();
+  };
+
+  describe('memory', () => {
+    test('initial', async () => {
+      await initial(Memory.from(testId()));
+    });
+
+    test('hydrated', async () => {
+      await hydrated(Memory.from(testId()));
+    });
+
+    test('converged', async () => {
+      await converged(Memory.from(testId()));
+    });
+  });
+
+  describe('dynamodb', () => {
+    let container: DynamoDBLocalContainer;
+    let options: DynamoDBOptions = {};
+
+    beforeAll(async () => {
+      container = new DynamoDBLocalContainer();
+      await container.start();
+      options.client = container.getClient();
+    });
+
+    afterAll(async () => {
+      await container.stop();
+    });
+
+    test('initial', async () => {
+      await initial(DynamoDB.from(testId(), options));
+    });
+
+    test('hydrated', async () => {
+      await hydrated(DynamoDB.from(testId(), options));
+    });
+
+    test('converged', async () => {
+      await converged(DynamoDB.from(testId(), options));
+    });
+  });
+});
@@ -6,14 +6,25 @@ import {
   Observable,
   of,
   ReplaySubject,
+  take,
+  toArray,
 } from 'rxjs';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { DynamoDBLocalContainer } from '../providers/aws/dynamodb/local';
+import { FakeRedis } from '../providers/redis/fake';
 import {
   CloudProvider,
   DynamoDB,
   DynamoDBOptions,
+  File,
+  Filter,
   ICloudProvider,
   Memory,
+  Redis,
+  RedisOptions,
+  Snapshot,
 } from 'cloudrx';
 import { testId } from '../setup';
 import { CloudReplaySubject } from 'cloudrx';
@@ -21,12 +32,16 @@ import { CloudReplaySubject } from 'cloudrx';
 type Data = { message: string; timestamp: number };
 
 describe('cloud-replay', () => {
+  let directory: string;
+
   beforeAll(() => {
     CloudProvider.DEFAULT_LOGGER = console;
+    directory = mkdtempSync(join(tmpdir(), 'cloudrx-replay-'));
   });
 
   afterAll(() => {
     CloudProvider.abort('Tests complete');
+    rmSync(directory, { recursive: true, force: true });
   });
 
   const seed = async (
@@ -78,6 +93,72 @@ describe('cloud-replay', () => {
     }
   };
 
+  const operators = async (
+    subject: CloudReplaySubject<Data>
+  ): Promise<void> => {
+    const messages = async (filter: Filter<Data>): Promise<string[]> =>
+      (await lastValueFrom(subject.snapshot(filter)))
+        .map((data) => data.message)
+        .sort();
+
+    expect(await messages({ message: { $beginsWith: 'data-' } })).toEqual([
+      'data-1',
+      'data-2',
+      'data-3',
+    ]);
+    expect(await messages({ message: { $in: ['data-1', 'data-3'] } })).toEqual([
+      'data-1',
+      'data-3',
+    ]);
+    expect(await messages({ message: { $ne: 'data-2' } })).toEqual([
+      'data-1',
+      'data-3',
+    ]);
+    expect(
+      await messages({ message: { $gt: 'data-1', $lte: 'data-3' } })
+    ).toEqual(['data-2', 'data-3']);
+    expect(
+      await messages({ message: { $between: ['data-2', 'data-9'] } })
+    ).toEqual(['data-2', 'data-3']);
+    expect(await messages({ timestamp: { $exists: false } })).toEqual([]);
+  };
+
+  const paginated = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const provider = await firstValueFrom(provider$);
+    const messages = ['page-1', 'page-2', 'page-3', 'page-4', 'page-5'];
+    for (const [timestamp, message] of messages.entries()) {
+      await firstValueFrom(provider.store<Data>({ message, timestamp }));
+    }
+    const subject = new CloudReplaySubject<Data>(provider$);
+
+    // Follow cursors until the last page
+    const pages: Data[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page: Snapshot<Data> = await lastValueFrom(
+        subject.snapshot({}, { limit: 2, cursor })
+      );
+      expect(page.items.length).toBeLessThanOrEqual(2);
+      pages.push(page.items);
+      cursor = page.cursor;
+    } while (cursor);
+
+    expect(pages.length).toBeGreaterThanOrEqual(3);
+    expect(pages.flat().map((d) => d.message)).toEqual([...messages].reverse());
+
+    const ascending = await lastValueFrom(
+      subject.snapshot$({}, { limit: 2, order: 'asc' }).pipe(toArray())
+    );
+    expect(ascending.map((d) => d.message)).toEqual(messages);
+
+    const first = await lastValueFrom(
+      subject.snapshot$({ message: { $beginsWith: 'page-' } }).pipe(take(1))
+    );
+    expect(first.message).toBe('page-5');
+  };
+
   const backfill = async (
     seedData: Data[],
     subject: ReplaySubject<Data>
@@ -180,6 +261,132 @@ describe('cloud-replay', () => {
     });
   };
 
+  const removed = async (
+    provider: Observable<ICloudProvider<unknown>>,
+    hashFn?: (value: Data) => string
+  ): Promise<void> => {
+    const subject = new CloudReplaySubject<Data>(
+      provider,
+      hashFn ? { hashFn } : undefined
+    );
+
+    const item = {
+      message: 'removed-item',
+      timestamp: Date.now(),
+    };
+
+    const received = await new Promise<Data>((resolve) => {
+      subject
+        .pipe(filter((data) => data.message === 'removed-item'))
+        .subscribe((data) => resolve(data));
+      subject.next(item);
+    });
+
+    const removedEvents = await new Promise<Data[]>((resolve) => {
+      const incoming: Data[] = [];
+      subject.on('removed', (value) => {
+        incoming.push(value);
+      });
+
+      // With a hashFn, a value the subject didn't emit is removed by key
+      subject.remove(hashFn ? { ...received } : received);
+
+      setTimeout(() => {
+        resolve(incoming);
+      }, 5000);
+    });
+
+    expect(removedEvents).toHaveLength(1);
+    expect(removedEvents[0]).toEqual(item);
+
+    const remaining = await lastValueFrom(
+      subject.snapshot({ message: 'removed-item' })
+    );
+    expect(remaining).toHaveLength(0);
+  };
+
+  const emitted = async (
+    provider: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const subject = new CloudReplaySubject<Data>(provider);
+
+    const now = Date.now();
+    const scheduledItem = {
+      message: 'scheduled-item',
+      timestamp: now,
+    };
+    const emitAt = new Date(now + 3000);
+
+    const received = await new Promise<{ data: Data; at: number }[]>(
+      (resolve) => {
+        const incoming: { data: Data; at: number }[] = [];
+        subject.subscribe((data) => {
+          incoming.push({ data, at: Date.now() });
+        });
+
+        subject.next(scheduledItem, { emitAt });
+
+        setTimeout(() => {
+          resolve(incoming);
+        }, 8000);
+      }
+    );
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.data).toEqual(scheduledItem);
+    expect(received[0]!.at).toBeGreaterThanOrEqual(emitAt.getTime());
+
+    // A late subscriber replays the already-emitted item immediately
+    const replayed = await firstValueFrom(
+      new CloudReplaySubject<Data>(provider).pipe(
+        filter((data) => data.message === 'scheduled-item')
+      )
+    );
+    expect(replayed).toEqual(scheduledItem);
+  };
+
+  const checkpointed = async (
+    provider$: Observable<ICloudProvider<unknown>>
+  ): Promise<void> => {
+    const seedData = await seed(provider$);
+    const checkpoint = 'consumer';
+
+    const first = new CloudReplaySubject<Data>(provider$, { checkpoint });
+    const replayed = await new Promise<Data[]>((resolve) => {
+      const incoming: Data[] = [];
+      first.subscribe((data) => {
+        incoming.push(data);
+        if (incoming.length === seedData.length) resolve(incoming);
+      });
+    });
+    expect(replayed.map((d) => d.message)).toEqual(
+      expect.arrayContaining(seedData.map((d) => d.message))
+    );
+    first.unsubscribe();
+
+    // Allow the checkpoint to be written before storing more data
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const provider = await firstValueFrom(provider$);
+    const later: Data[] = [
+      { message: 'data-4', timestamp: performance.now() },
+      { message: 'data-5', timestamp: performance.now() },
+    ];
+    for (const item of later) {
+      await firstValueFrom(provider.store(item));
+    }
+
+    // A new subject for the same consumer only sees what it hasn't processed
+    const resumed = await new Promise<Data[]>((resolve) => {
+      const incoming: Data[] = [];
+      new CloudReplaySubject<Data>(provider$, { checkpoint }).subscribe(
+        (data) => incoming.push(data)
+      );
+      setTimeout(() => resolve(incoming), 5000);
+    });
+    expect(resumed.map((d) => d.message)).toEqual(['data-4', 'data-5']);
+  };
+
   describe('memory', () => {
     test('snapshot', async () => {
       const provider = Memory.from(testId());
@@ -219,6 +426,16 @@ describe('cloud-replay', () => {
       await snapshot(seedData, subject, { message: 'data-3' });
     });
 
+    test('snapshot-operators', async () => {
+      const provider = Memory.from(testId());
+      await seed(provider);
+      await operators(new CloudReplaySubject<Data>(provider));
+    });
+
+    test('snapshot-paginated', async () => {
+      await paginated(Memory.from(testId()));
+    });
+
     test('backfill', async () => {
       const provider = Memory.from(testId());
       const seedData = await seed(provider);
@@ -247,6 +464,55 @@ describe('cloud-replay', () => {
     test('expired', async () => {
       await expired(Memory.from(testId()));
     });
+
+    test('removed', async () => {
+      await removed(Memory.from(testId()));
+    });
+
+    test('removed-by-key', async () => {
+      await removed(Memory.from(testId()), (data) => data.message);
+    });
+
+    test('emitted', async () => {
+      await emitted(Memory.from(testId()));
+    });
+
+    test('checkpointed', async () => {
+      await checkpointed(Memory.from(testId()));
+    });
+  });
+
+  describe('file', () => {
+    test('removed', async () => {
+      await removed(File.from(testId(), { directory }));
+    });
+
+    test('snapshot-paginated', async () => {
+      await paginated(File.from(testId(), { directory }));
+    });
+
+    test('removed-by-key', async () => {
+      await removed(File.from(testId(), { directory }), (data) => data.message);
+    });
+  });
+
+  describe('redis', () => {
+    const options = (): RedisOptions => ({
+      client: new FakeRedis(),
+      pollInterval: 100,
+    });
+
+    test('snapshot-paginated', async () => {
+      await paginated(Redis.from(testId(), options()));
+    });
+
+    test('removed', async () => {
+      await removed(Redis.from(testId(), options()));
+    });
+
+    test('removed-by-key', async () => {
+      await removed(Redis.from(testId(), options()), (data) => data.message);
+    });
   });
 
   describe('dynamodb', () => {
@@ -305,6 +571,16 @@ describe('cloud-replay', () => {
       await snapshot(seedData, subject, { message: 'data-3' });
     });
 
+    test('snapshot-operators', async () => {
+      const provider = DynamoDB.from(testId(), options);
+      await seed(provider);
+      await operators(new CloudReplaySubject<Data>(provider));
+    });
+
+    test('snapshot-paginated', async () => {
+      await paginated(DynamoDB.from(testId(), options));
+    });
+
     test('backfill', async () => {
       const provider = DynamoDB.from(testId(), options);
       const seedData = await seed(provider);
@@ -333,6 +609,18 @@ describe('cloud-replay', () => {
     test('expired', async () => {
       await expired(DynamoDB.from(testId(), options));
     });
+
+    test('removed', async () => {
+      await removed(DynamoDB.from(testId(), options));
+    });
+
+    test('emitted', async () => {
+      await emitted(DynamoDB.from(testId(), options));
+    });
+
+    test('checkpointed', async () => {
+      await checkpointed(DynamoDB.from(testId(), options));
+    });
   });
 
   describe('readme', () => {
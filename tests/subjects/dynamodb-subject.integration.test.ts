@@ -68,7 +68,7 @@ describe('DynamoDB Subject Integration', () => {
     await new Promise((resolve) => setTimeout(resolve, 500));
 
     const events: DynamoDBEvent<TestRecord>[] = [];
-    const sub = fromEvent(controller, 'modified').subscribe((event) => {
+    const sub = fromEvent(controller, 'inserted').subscribe((event) => {
       events.push(event);
     });
     subscriptions.push(sub);
@@ -83,7 +83,7 @@ describe('DynamoDB Subject Integration', () => {
 
     const insertEvent = events.find((e) => e.value?.id === 'subj-1');
     expect(insertEvent).toBeDefined();
-    expect(insertEvent!.type).toBe('modified');
+    expect(insertEvent!.type).toBe('inserted');
     expect(insertEvent!.eventName).toBe('INSERT');
     expect(insertEvent!.value).toEqual({ id: 'subj-1', data: 'from subject' });
   });